@@ -13,13 +13,16 @@ import {
 
 
 /**
- * An object which represents a contribution to an extension point.
+ * An object which represents a typed contribution to an extension point.
  *
  * #### Notes
+ * The type parameters are the types of the `item`, `data`, and `config`
+ * of the extension, as defined by the contract of the extension point.
+ *
  * All properties of an extension are treated as read-only.
  */
 export
-interface IExtension extends IDisposable {
+interface ITypedExtension<TItem, TData, TConfig> extends IDisposable {
   /**
    * The globally unique identifier of the extension.
    */
@@ -33,28 +36,67 @@ interface IExtension extends IDisposable {
   /**
    * The behavioral object for the extension, or `null`.
    */
-  item: any;
+  item: TItem;
 
   /**
    * The parsed JSON data for the extension, or `null`.
    */
-  data: any;
+  data: TData;
 
   /**
    * The static configuration data for the extension, or `null`.
    */
-  config: any;
+  config: TConfig;
+
+  /**
+   * The sort rank of the extension within its point, if any.
+   *
+   * #### Notes
+   * Lower ranks sort first, and unranked extensions sort last.
+   *
+   * This is only consulted when the extension is registered.
+   */
+  rank?: number;
+
+  /**
+   * The ids of the extensions which this extension precedes, if any.
+   *
+   * #### Notes
+   * This is only consulted when the extension is registered.
+   */
+  before?: string[];
+
+  /**
+   * The ids of the extensions which this extension follows, if any.
+   *
+   * #### Notes
+   * This is only consulted when the extension is registered.
+   */
+  after?: string[];
 }
 
 
 /**
- * An object which represents an extension point in an application.
+ * An object which represents a contribution to an extension point.
+ *
+ * #### Notes
+ * All properties of an extension are treated as read-only.
+ */
+export
+interface IExtension extends ITypedExtension<any, any, any> { }
+
+
+/**
+ * An object which represents a typed extension point in an application.
  *
  * #### Notes
+ * The type parameters are the types of the `item`, `data`, and `config`
+ * of the extensions accepted by the point.
+ *
  * All properties of an extension point are treated as read-only.
  */
 export
-interface IExtensionPoint extends IDisposable {
+interface ITypedExtensionPoint<TItem, TData, TConfig> extends IDisposable {
   /**
    * The globally unique id of the extension point.
    */
@@ -65,10 +107,13 @@ interface IExtensionPoint extends IDisposable {
    *
    * @param extension - The extension to add to the point.
    *
+   * @param index - The position of the extension among the extensions
+   *   of the point, in sorted order.
+   *
    * #### Notes
    * This should be a no-op if the extension has already been added.
    */
-  add(extension: IExtension): void;
+  add(extension: ITypedExtension<TItem, TData, TConfig>, index?: number): void;
 
   /**
    * Remove an extension from the extension point.
@@ -79,53 +124,172 @@ interface IExtensionPoint extends IDisposable {
    * This should be a no-op if the extension has not been added.
    */
   remove(id: string): void;
+
+  /**
+   * The schemas for the extension data and config, if any.
+   *
+   * #### Notes
+   * This is only consulted when the point is registered.
+   */
+  schema?: IPointSchema;
+
+  /**
+   * The number of extensions accepted by the point, if limited.
+   *
+   * #### Notes
+   * This is either `'single'`, `'multiple'`, or an object with an
+   * optional `min` and `max` count. The default is `'multiple'`.
+   *
+   * This is only consulted when the point is registered.
+   */
+  cardinality?: string | ICardinality;
+
+  /**
+   * The policy for resolving a conflict when the point is full.
+   *
+   * #### Notes
+   * This is either `'first'`, `'rank'`, or `'error'`. The default
+   * is `'first'`.
+   *
+   * Under the `'rank'` policy, the extensions with the highest rank
+   * are kept, and an unranked extension is the weakest. An extension
+   * of equal rank does not replace a delivered extension. Replacing
+   * an extension is reported as a change of the point, rather than
+   * as an error. The delivered extensions are still sorted by their
+   * ascending rank and their ordering constraints.
+   *
+   * This is only consulted when the point is registered.
+   */
+  conflict?: string;
 }
 
 
 /**
- * An object which represents a contribution to an extension point.
+ * An object which represents an extension point in an application.
+ *
+ * #### Notes
+ * All properties of an extension point are treated as read-only.
+ */
+export
+interface IExtensionPoint extends ITypedExtensionPoint<any, any, any> { }
+
+
+/**
+ * An object which specifies the number of extensions for a point.
+ */
+export
+interface ICardinality {
+  /**
+   * The minimum number of extensions required by the point.
+   *
+   * #### Notes
+   * The default is `0`. The minimum is enforced when the point is
+   * activated or its extensions are requested.
+   */
+  min?: number;
+
+  /**
+   * The maximum number of extensions accepted by the point.
+   *
+   * #### Notes
+   * The default is unlimited.
+   */
+  max?: number;
+}
+
+
+/**
+ * An object which declares the JSON schemas accepted by a point.
+ *
+ * #### Notes
+ * Each schema is a JSON Schema object. The supported keywords are
+ * `type`, `enum`, `properties`, `required`, `additionalProperties`,
+ * `items`, `minItems`, `maxItems`, `minLength`, `maxLength`,
+ * `pattern`, `minimum`, and `maximum`. Other keywords are ignored.
+ *
+ * The patterns are compiled when the point is registered, and a point
+ * with an invalid pattern is rejected. Only the own properties of a
+ * value are checked against `properties` and `required`.
+ *
+ * An extension without data or config is validated as `null`.
+ */
+export
+interface IPointSchema {
+  /**
+   * The schema for the `data` of an extension.
+   */
+  data?: any;
+
+  /**
+   * The schema for the `config` of an extension.
+   */
+  config?: any;
+}
+
+
+/**
+ * A typed contribution to an extension point.
  *
  * Objects of this type are created by an extension factory function
- * to provide a behavioral object to a matching extension point.
+ * to provide a behavioral object to a matching extension point. The
+ * type parameter is the type of the behavioral object.
  *
  * This type is not used for manually registered extensions.
  */
 export
-interface IContrib {
+interface ITypedContrib<TItem> {
   /**
    * The behavioral object to provide to the extension point.
    */
-  item: any;
+  item: TItem;
 
   /**
    * Dispose of the resources held by the extension.
    *
    * If this method is provided, it will be invoked when the plugin
-   * which registered the extension is unloaded.
+   * which registered the extension is unloaded. It may return a
+   * promise which resolves once the resources are released.
    */
-  dispose?(): void;
+  dispose?(): void | Promise<void>;
 }
 
 
 /**
- * A receiver object for an extension point.
+ * An object which represents a contribution to an extension point.
+ *
+ * Objects of this type are created by an extension factory function
+ * to provide a behavioral object to a matching extension point.
+ *
+ * This type is not used for manually registered extensions.
+ */
+export
+interface IContrib extends ITypedContrib<any> { }
+
+
+/**
+ * A typed receiver object for an extension point.
  *
  * Objects of this type are created by an extension point factory
  * function to handle addition and removal of matching extensions.
+ * The type parameters are the types of the `item`, `data`, and
+ * `config` of the extensions accepted by the point.
  *
  * This type is not used for manually registered extension points.
  */
 export
-interface IReceiver {
+interface ITypedReceiver<TItem, TData, TConfig> {
   /**
    * Add an extension to the extension point.
    *
    * @param extension - The extension to add to the point.
    *
+   * @param index - The position of the extension among the extensions
+   *   of the point, in sorted order.
+   *
    * #### Notes
    * This should be a no-op if the extension has already been added.
    */
-  add(extension: IExtension): void;
+  add(extension: ITypedExtension<TItem, TData, TConfig>, index?: number): void;
 
   /**
    * Remove an extension from the extension point.
@@ -142,1070 +306,7386 @@ interface IReceiver {
    *
    * If this method is provided, it will be invoked when the plugin
    * which registered the extension point is unloaded.
+   *
+   * #### Notes
+   * Every extension added to the receiver is removed before the
+   * receiver is disposed. It may return a promise which resolves
+   * once the resources are released.
    */
-  dispose?(): void;
+  dispose?(): void | Promise<void>;
 }
 
 
 /**
- * List the names of the currently registered plugins.
+ * A receiver object for an extension point.
  *
- * @returns A new array of the current plugin names.
+ * Objects of this type are created by an extension point factory
+ * function to handle addition and removal of matching extensions.
+ *
+ * This type is not used for manually registered extension points.
  */
 export
-function listPlugins(): string[] {
-  return Object.keys(pluginRegistry);
-}
+interface IReceiver extends ITypedReceiver<any, any, any> { }
 
 
 /**
- * List the ids of the currently registered extensions.
+ * A logger which is scoped to a single extension or extension point.
  *
- * @returns A new array of the current extension ids.
+ * #### Notes
+ * Each message is prefixed with the id of the owner of the logger.
  */
 export
-function listExtensions(): string[] {
-  return Object.keys(extensionRegistry);
+interface IPluginLogger {
+  /**
+   * Log an informational message to the console.
+   */
+  log(...args: any[]): void;
+
+  /**
+   * Log a warning message to the console.
+   */
+  warn(...args: any[]): void;
+
+  /**
+   * Log an error message to the console.
+   */
+  error(...args: any[]): void;
 }
 
 
 /**
- * List the ids of the currently registered extension points.
+ * A token which signals the disposal of a registry object.
  *
- * @returns A new array of the current extension point ids.
+ * #### Notes
+ * A token is also passed to the module loader, where it serves as an
+ * abort signal for the loads which are cancelled by the disposal.
  */
 export
-function listExtensionPoints(): string[] {
-  return Object.keys(pointRegistry);
+interface IDisposalToken {
+  /**
+   * Whether the owner of the token has been disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  isDisposed: boolean;
+
+  /**
+   * Add a callback to invoke when the owner of the token is disposed.
+   *
+   * @param callback - The function to invoke on disposal.
+   *
+   * @returns A disposable which will remove the callback.
+   *
+   * #### Notes
+   * If the owner is already disposed, the callback is invoked
+   * immediately.
+   */
+  onDisposed(callback: () => void): IDisposable;
 }
 
 
 /**
- * Register a plugin and load its JSON specification.
- *
- * @param name - The name of the plugin to register.
- *
- * @returns A disposable which will unload the plugin.
- *
- * @throws An error if the plugin name is already registered.
+ * The context object passed to a factory function.
  *
  * #### Notes
- * A plugin name is the same as the name of the package which contains
- * the plugin specification. For a plugin named `my-plugin`, this will
- * load the `my-plugin/package.json` file. The `phosphor-plugin` field
- * in that file will be used to configure the plugin.
+ * All properties of a factory context are treated as read-only.
  */
 export
-function registerPlugin(name: string): IDisposable {
-  // Throw an error if the plugin name is registered.
-  if (name in pluginRegistry) {
-    throw new Error(`Plugin '${name}' is already registered.`);
-  }
+interface IFactoryContext {
+  /**
+   * The id of the extension or extension point being created.
+   */
+  id: string;
 
-  // Create a new unloaded record for the plugin.
-  let record: IPluginRecord = {
-    state: RecordState.Unloaded,
-    name: name,
-    spec: null,
-  };
+  /**
+   * The name of the plugin which owns the object, or `null`.
+   */
+  plugin: string;
 
-  // Add the record to the plugin registry.
-  pluginRegistry[name] = record;
+  /**
+   * A logger which is scoped to the object being created.
+   */
+  logger: IPluginLogger;
 
-  // Load the plugin record.
-  loadPlugin(record);
+  /**
+   * A token which is disposed along with the created object.
+   *
+   * #### Notes
+   * The token is also disposed if the object is unregistered
+   * before the factory has finished creating it.
+   */
+  token: IDisposalToken;
 
-  // Return a disposable which will unload the plugin.
-  return new DisposableDelegate(() => { disposePlugin(name); });
+  /**
+   * The registry which is creating the object.
+   */
+  registry: PluginRegistry;
 }
 
 
 /**
- * Register an extension and connect the matching extension point.
- *
- * @param extension - The extension object to register.
- *
- * @returns A disposable which will unload the extension.
- *
- * @throws An error if the extension id is already registered.
- *
- * #### Notes
- * This function can be used to dynamically register an extension which
- * is created at runtime. Most extensions are registered automatically
- * as part of registering their owner plugin.
+ * The context object passed to an extension factory function.
  */
 export
-function registerExtension(extension: IExtension): IDisposable {
-  // Throw an error if the extension id is registered.
-  if (extension.id in extensionRegistry) {
-    throw new Error(`Extension '${extension.id}' is already registered.`);
-  }
+interface IExtensionContext extends IFactoryContext {
+  /**
+   * The id of the target extension point.
+   *
+   * #### Notes
+   * This is the first of the `targets` of the extension.
+   */
+  point: string;
 
-  // Create a compatible spec for the extension.
-  let spec: IExtensionSpec = {
-    id: extension.id,
-    point: extension.point,
-  };
+  /**
+   * The ids and patterns of the points targeted by the extension.
+   */
+  targets: string[];
 
-  // Create a new loaded record for the extension.
-  let record: IExtensionRecord = {
-    state: RecordState.Loaded,
-    spec: spec,
-    value: extension,
-    promise: null,
-  };
+  /**
+   * The parsed JSON data for the extension, or `null`.
+   */
+  data: any;
 
-  // Add the record to the extension registry.
-  extensionRegistry[spec.id] = record;
+  /**
+   * The static configuration data for the extension, or `null`.
+   */
+  config: any;
+}
 
-  // Load any matching extension point.
-  loadMatchingPoint(record);
 
-  // Return a disposable which will unload the extension.
-  return new DisposableDelegate(() => { disposeExtension(spec.id); });
+/**
+ * The context object passed to an extension point factory function.
+ */
+export
+interface IPointContext extends IFactoryContext {
+  /**
+   * The schemas declared by the extension point, or `null`.
+   */
+  schema: IPointSchema;
 }
 
 
 /**
- * Register an extension point and connect the matching extensions.
- *
- * @param point - The extension point object to register.
- *
- * @returns A disposable which will unload the extension point.
- *
- * @throws An error if the extension point id is already registered.
+ * The context object passed to the lifecycle hooks of a plugin.
  *
  * #### Notes
- * This function can be used to dynamically register an extension point
- * which is created at runtime. Most extension points are registered
- * automatically as part of registering their owner plugin.
+ * The `id` and `plugin` of the context are the name of the plugin.
  */
 export
-function registerExtensionPoint(point: IExtensionPoint): IDisposable {
-  // Throw an error if the extension point id is registered.
-  if (point.id in pointRegistry) {
-    throw new Error(`Extension point '${point.id}' is already registered.`);
-  }
-
-  // Create a compatible spec for the extension point.
-  let spec: IPointSpec = {
-    id: point.id,
-  };
+interface IPluginContext extends IFactoryContext {
+  /**
+   * The package version of the plugin, or `null`.
+   */
+  version: string;
 
-  // Create a new loaded record for the extension.
-  let record: IPointRecord = {
-    state: RecordState.Loaded,
-    spec: spec,
-    value: point,
-    promise: null,
-  };
+  /**
+   * The namespace of the ids declared by the plugin.
+   */
+  namespace: string;
+}
 
-  // Add the record to the registry.
-  pointRegistry[spec.id] = record;
 
-  // Load any matching extensions.
-  loadMatchingExtensions(record);
+/**
+ * An object which defines the lifecycle hooks of a plugin.
+ *
+ * #### Notes
+ * This is the interface of the plugin `main` module.
+ */
+export
+interface IPluginMain {
+  /**
+   * Activate the plugin.
+   *
+   * @param context - The context for the plugin.
+   *
+   * @returns `false`, or a promise which resolves to `false`, to veto
+   *   the loading of the plugin. Any other result allows the plugin
+   *   to load.
+   *
+   * #### Notes
+   * This is invoked once the required plugins and consumed services
+   * are loaded, and before the extensions and extension points of
+   * the plugin are registered.
+   *
+   * A plugin which vetoes its activation, or whose activation fails,
+   * fails to load.
+   */
+  activate?(context: IPluginContext): boolean | void | Promise<boolean | void>;
 
-  // Return a disposable which will unload the extension point.
-  return new DisposableDelegate(() => { disposePoint(spec.id); });
+  /**
+   * Deactivate the plugin.
+   *
+   * @param context - The context for the plugin.
+   *
+   * #### Notes
+   * This is invoked once the extensions and extension points of the
+   * plugin have finished their disposal, and before its services are
+   * disposed. It is only invoked for a plugin which was activated.
+   *
+   * The `token` of the context is already disposed when the hook is
+   * invoked, since the pending loads of the plugin are cancelled as
+   * soon as the plugin is disposed.
+   */
+  deactivate?(context: IPluginContext): void | Promise<void>;
 }
 
 
-//-----------------------------------------------------------------------------
-// Common Functionality
-//-----------------------------------------------------------------------------
-
 /**
- * An enum which defines the possible record states.
+ * An enum which defines the phases in which a plugin error can occur.
  */
-const enum RecordState {
+export
+enum ErrorPhase {
   /**
-   * The record has not yet been loaded.
+   * The error occurred while fetching the plugin `package.json`.
    */
-  Unloaded,
+  FetchManifest,
 
   /**
-   * The record is currently loading.
+   * The error occurred while validating a plugin specification.
    */
-  Loading,
+  ValidateSpec,
 
   /**
-   * The record is fully loaded.
+   * The error occurred while resolving the plugins required by a plugin.
    */
-  Loaded,
+  ResolveDependencies,
 
   /**
-   * The record is disposed.
+   * The error occurred while importing the JSON data of an extension.
    */
-  Disposed,
-}
-
-
-/**
- * A type alias for a string map.
- */
-type StringMap<T> = { [id: string]: T };
-
+  ImportData,
 
-/**
- * Create a new empty string map.
- */
-function createMap<T>(): StringMap<T> {
-  return Object.create(null);
-}
+  /**
+   * The error occurred while importing a `main` module.
+   */
+  ImportMain,
 
+  /**
+   * The error occurred while running an extension or point factory.
+   */
+  RunFactory,
 
-/**
- * Safely dispose of something which may be a disposable.
- *
- * All errors will be caught and logged to the console.
- */
-function safeDispose(obj: any): void {
-  if (obj && typeof obj.dispose === 'function') {
-    try {
-      obj.dispose();
-    } catch (err) {
-      console.error(err);
-    }
-  }
-}
+  /**
+   * The error occurred while adding an extension to a receiver.
+   */
+  ReceiverAdd,
 
+  /**
+   * The error occurred while disposing of an object.
+   */
+  Dispose,
 
-/**
- * Test whether loaded JSON data is an object.
- */
-function isObject(jsonData: any): boolean {
-  if (!jsonData) {
-    return false;
-  }
-  if (typeof jsonData !== 'object') {
-    return false;
-  }
-  if (jsonData instanceof Array) {
-    return false;
-  }
-  return true;
-}
+  /**
+   * The error occurred while validating extension data or config.
+   */
+  ValidateData,
 
+  /**
+   * The error occurred while enforcing the cardinality of a point.
+   */
+  Cardinality,
 
-/**
- * Test whether a non-null object implements `IContrib`.
- */
-function isContrib(obj: any): boolean {
-  return 'item' in obj;
-}
+  /**
+   * The error occurred while discovering the available plugins.
+   */
+  Discovery,
 
+  /**
+   * The error occurred while removing an extension from a receiver.
+   */
+  ReceiverRemove,
 
-/**
- * Test whether a non-null object implements `IReceiver`.
- */
-function isReceiver(obj: any): boolean {
-  return typeof obj.add === 'function' && typeof obj.remove === 'function';
+  /**
+   * The error occurred while activating a plugin.
+   */
+  ActivatePlugin,
 }
 
 
-//-----------------------------------------------------------------------------
-// Plugin Implementation
-//-----------------------------------------------------------------------------
-
 /**
- * An object which provides the specification for a plugin.
+ * An object which describes an error which occurred in the registry.
+ *
+ * #### Notes
+ * All properties of a plugin error are treated as read-only.
  */
-interface IPluginSpec {
+export
+interface IPluginError {
   /**
-   * The name of the plugin.
+   * The phase in which the error occurred.
    */
-  name: string;
+  phase: ErrorPhase;
 
   /**
-   * The extension specs for the plugin.
+   * The name of the plugin which owns the failing object, or `null`.
    */
-  extensions: IExtensionSpec[];
+  plugin: string;
 
   /**
-   * The extension point specs for the plugin.
+   * The id of the extension involved in the error, or `null`.
    */
-  extensionPoints: IPointSpec[];
-}
+  extension: string;
 
+  /**
+   * The id of the extension point involved in the error, or `null`.
+   */
+  point: string;
 
-/**
- * A registration record for a plugin.
- */
-interface IPluginRecord {
   /**
-   * The life cycle state of the record.
+   * The id of the service involved in the error, or `null`.
    */
-  state: RecordState;
+  service: string;
 
   /**
-   * The name of the plugin.
+   * A human readable description of the error.
    */
-  name: string;
+  message: string;
 
   /**
-   * The specification of the plugin, or `null` if not yet loaded.
+   * The original error which caused the failure.
    */
-  spec: IPluginSpec;
+  cause: any;
 }
 
 
 /**
- * A mapping of plugin name to plugin record.
+ * A type alias for a plugin error handler function.
  */
-var pluginRegistry = createMap<IPluginRecord>();
+export
+type ErrorHandler = (error: IPluginError) => void;
 
 
 /**
- * Ensure a plugin record is fully loaded.
+ * An enum which defines the possible record states.
  */
-function loadPlugin(record: IPluginRecord): void {
-  // If the record is not unloaded, there is nothing to do.
-  if (record.state !== RecordState.Unloaded) {
-    return;
-  }
+export
+enum RecordState {
+  /**
+   * The record has not yet been loaded.
+   */
+  Unloaded,
 
-  // Set the record state to loading.
-  record.state = RecordState.Loading;
+  /**
+   * The record is currently loading.
+   */
+  Loading,
 
-  // Kick off the promise loading chain.
-  Promise.resolve().then(() => {
+  /**
+   * The record is fully loaded.
+   */
+  Loaded,
 
-    // Load the plugin package JSON.
-    return System.import(`${record.name}/package.json`);
+  /**
+   * The record is disposed.
+   */
+  Disposed,
 
-  }).then(pkg => {
+  /**
+   * The record failed to load.
+   */
+  Failed,
+}
 
-    // Do nothing if the record has been disposed.
-    if (record.state === RecordState.Disposed) {
-      return;
-    }
 
-    // Assert the package JSON data is an object.
-    if (!isObject(pkg)) {
-      throw new Error('`package.json` must be an object.');
-    }
+/**
+ * An enum which defines the types of registry records.
+ */
+export
+enum RecordType {
+  /**
+   * The record is for a plugin.
+   */
+  Plugin,
 
-    // Assert the plugin JSON data exists.
-    if (!('phosphor-plugin' in pkg)) {
-      throw new Error('`phosphor-plugin` is not specified.');
-    }
+  /**
+   * The record is for an extension.
+   */
+  Extension,
 
-    // Create the plugin spec from the plugin JSON data.
-    record.spec = createPluginSpec(record.name, pkg['phosphor-plugin']);
-    record.state = RecordState.Loaded;
+  /**
+   * The record is for an extension point.
+   */
+  Point,
 
-    // Register the plugin extension points.
-    for (let point of record.spec.extensionPoints) {
-      registerPointSpec(point);
-    }
+  /**
+   * The record is for a service.
+   */
+  Service,
+}
 
-    // Register the plugin extensions.
-    for (let ext of record.spec.extensions) {
-      registerExtensionSpec(ext);
-    }
 
-  }).catch(err => {
+/**
+ * An object which describes a change to a registry record.
+ *
+ * #### Notes
+ * All properties of a registry change are treated as read-only.
+ */
+export
+interface IRegistryChange {
+  /**
+   * The type of the changed record.
+   */
+  type: RecordType;
 
-    // If an error occurs while loading, log it to the console.
-    console.error(`Error occured while loading plugin '${record.name}'.`);
-    console.error(err);
+  /**
+   * The plugin name, or the extension, point, or service id of the record.
+   */
+  id: string;
 
-    // Unregister the plugin and mark it as disposed.
-    delete pluginRegistry[record.name];
-    record.state = RecordState.Disposed;
+  /**
+   * The name of the plugin which owns the record, or `null`.
+   */
+  plugin: string;
 
-  });
+  /**
+   * The new state of the record.
+   *
+   * #### Notes
+   * A newly registered record reports its initial state, which is
+   * `Unloaded` for records created from a plugin specification and
+   * `Loaded` for dynamically registered extensions and points.
+   */
+  state: RecordState;
+
+  /**
+   * Whether the record is enabled.
+   *
+   * #### Notes
+   * A change to the enabled state of a plugin or an extension is
+   * reported with the current state of the record. Points and services
+   * are always enabled.
+   */
+  enabled: boolean;
 }
 
 
 /**
- * Dispose of the plugin with the specified name.
+ * A type alias for a registry change listener function.
  */
-function disposePlugin(name: string): void {
-  // Do nothing if the name is not registered.
-  if (!(name in pluginRegistry)) {
-    return;
-  }
+export
+type ChangeListener = (change: IRegistryChange) => void;
 
-  // Delete the registration record.
-  let record = pluginRegistry[name];
-  delete pluginRegistry[name];
 
-  // Do nothing if the record is disposed or unloaded.
-  if (record.state === RecordState.Disposed ||
-      record.state === RecordState.Unloaded) {
-    return;
-  }
+/**
+ * An object which loads the modules and data files of plugins.
+ *
+ * #### Notes
+ * A module loader decouples the plugin registry from the module system
+ * of the host application. All paths given to a loader are relative to
+ * the root of the named plugin package.
+ *
+ * The registry stops waiting for a load when its token is disposed,
+ * so a loader which cannot abort a request may ignore the token. The
+ * built-in loaders ignore the token, so a cancelled request runs to
+ * completion in the background and its result is discarded.
+ *
+ * A failed load is retried only if the rejection error has a truthy
+ * `transient` property, which a loader sets for a failure that may
+ * succeed on a later attempt, such as a network error.
+ */
+export
+interface IModuleLoader {
+  /**
+   * Load the package manifest for a plugin.
+   *
+   * @param plugin - The name of the plugin of interest.
+   *
+   * @param token - A token which is disposed if the load is cancelled.
+   *
+   * @returns A promise which resolves to the parsed `package.json`
+   *   data for the plugin.
+   */
+  loadManifest(plugin: string, token?: IDisposalToken): Promise<any>;
 
-  // If the record is loading, mark it as disposed. The loader
-  // will check for this condition and handle it on completion.
-  if (record.state === RecordState.Loading) {
-    record.state = RecordState.Disposed;
-    return;
-  }
+  /**
+   * Import a module which belongs to a plugin.
+   *
+   * @param plugin - The name of the plugin which owns the module.
+   *
+   * @param path - The path to the module, relative to the plugin.
+   *
+   * @param token - A token which is disposed if the load is cancelled.
+   *
+   * @returns A promise which resolves to the module exports.
+   */
+  importModule(plugin: string, path: string, token?: IDisposalToken): Promise<any>;
 
-  // Mark the plugin as disposed.
-  record.state = RecordState.Disposed;
+  /**
+   * Import a JSON data file which belongs to a plugin.
+   *
+   * @param plugin - The name of the plugin which owns the data.
+   *
+   * @param path - The path to the data file, relative to the plugin.
+   *
+   * @param token - A token which is disposed if the load is cancelled.
+   *
+   * @returns A promise which resolves to the parsed JSON data.
+   */
+  importData(plugin: string, path: string, token?: IDisposalToken): Promise<any>;
 
-  // Dispose the plugin extensions.
-  for (let ext of record.spec.extensions) {
-    disposeExtension(ext.id);
-  }
+  /**
+   * Discard the cached modules and data files of a plugin.
+   *
+   * @param plugin - The name of the plugin of interest.
+   *
+   * #### Notes
+   * This method is optional. If provided, it is invoked when a plugin
+   * is reloaded, so that the next imports load fresh copies.
+   */
+  invalidate?(plugin: string): void;
 
-  // Dispose the plugin extension points.
-  for (let point of record.spec.extensionPoints) {
-    disposePoint(point.id);
-  }
+  /**
+   * Scan for the names of the plugins which can be loaded.
+   *
+   * @returns A promise which resolves to the available plugin names.
+   *
+   * #### Notes
+   * This method is optional. If provided, it is used to discover the
+   * plugins when no catalog is given to `discoverPlugins()`.
+   */
+  listPlugins?(): Promise<string[]>;
 }
 
 
 /**
- * Create a plugin spec from plugin JSON data.
- *
- * This will throw error if any part of the data is invalid.
+ * An options object for creating a native loader.
  */
-function createPluginSpec(name: string, plugin: any): IPluginSpec {
-  // Assert the plugin is an object.
-  if (!isObject(plugin)) {
-    throw new Error('Plugin must be an object.');
-  }
+export
+interface INativeLoaderOptions {
+  /**
+   * The function which imports a module specifier.
+   *
+   * #### Notes
+   * This is typically `specifier => import(specifier)`, written in the
+   * application code, so that the dynamic `import()` is handled by the
+   * bundler or the runtime of the application.
+   */
+  importer: (specifier: string) => Promise<any>;
 
-  // Create the extension specs for the plugin.
-  let extensions = createExtensionSpecs();
+  /**
+   * A function which converts a plugin name and a relative path into
+   * a module specifier.
+   *
+   * The default joins the plugin name and path with a `/`, which is
+   * suitable for import maps and for Node.
+   */
+  resolve?: (plugin: string, path: string) => string;
 
-  // Create the point specs for the plugin.
-  let extensionPoints = createPointSpecs();
+  /**
+   * The function which fetches and parses a JSON file.
+   *
+   * The default uses the global `fetch` function, which requires the
+   * specifiers of the JSON files to be URLs.
+   */
+  fetchJSON?: (specifier: string) => Promise<any>;
+}
 
-  // Return the new plugin spec.
-  return { name, extensions, extensionPoints };
-
-  // Create the array of extension specs.
-  function createExtensionSpecs(): IExtensionSpec[] {
-    if (!('extensions' in plugin)) {
-      return [];
-    }
-
-    if (!(plugin.extensions instanceof Array)) {
-      throw new Error('`extensions` must be an array.');
-    }
-
-    return plugin.extensions.map(createExtensionSpec);
-  }
-
-  // Create the array of extension point specs.
-  function createPointSpecs(): IPointSpec[] {
-    if (!('extensionPoints' in plugin)) {
-      return [];
-    }
-
-    if (!(plugin.extensionPoints instanceof Array)) {
-      throw new Error('`extensionPoints` must be an array.');
-    }
-
-    return plugin.extensionPoints.map(createPointSpec);
-  }
-
-  // Create an extension spec from extension JSON data.
-  function createExtensionSpec(ext: any): IExtensionSpec {
-    if (!isObject(ext)) {
-      throw new Error('Extension must be an object.');
-    }
-
-    if (typeof ext.id !== 'string') {
-      throw new Error('Extension `id` must be a string.');
-    }
-
-    if (typeof ext.point !== 'string') {
-      throw new Error('Extension `point` must be a string.');
-    }
-
-    let spec: IExtensionSpec = { id: ext.id, point: ext.point, plugin: name };
-
-    if ('main' in ext) {
-      if (typeof ext.main !== 'string') {
-        throw new Error('Extension `main` must be a string.');
-      }
-      spec.main = ext.main;
-    }
-
-    if ('factory' in ext) {
-      if (typeof ext.factory !== 'string') {
-        throw new Error('Extension `factory` must be a string.');
-      }
-      spec.factory = ext.factory;
-    }
-
-    if ('data' in ext) {
-      if (typeof ext.data !== 'string') {
-        throw new Error('Extension `data` must be a string.');
-      }
-      spec.data = ext.data;
-    }
-
-    if ('config' in ext) {
-      if (!isObject(ext.config)) {
-        throw new Error('Extension `config` must be an object.');
-      }
-      spec.config = ext.config;
-    }
-
-    return spec;
-  }
-
-  // Create a point spec from point JSON data.
-  function createPointSpec(point: any): IPointSpec {
-    if (!isObject(point)) {
-      throw new Error('Extension point must be an object.');
-    }
-
-    if (typeof point.id !== 'string') {
-      throw new Error('Extension point `id` must be a string.');
-    }
-
-    let spec: IPointSpec = { id: point.id, plugin: name };
-
-    if ('main' in point) {
-      if (typeof point.main !== 'string') {
-        throw new Error('Extension point `main` must be a string.');
-      }
-      spec.main = point.main;
-    }
-
-    if ('factory' in point) {
-      if (typeof point.factory !== 'string') {
-        throw new Error('Extension point `factory` must be a string.');
-      }
-      spec.factory = point.factory;
-    }
-
-    return spec;
-  }
-}
-
-
-//-----------------------------------------------------------------------------
-// Extension Implementation
-//-----------------------------------------------------------------------------
 
 /**
- * A concrete implementation of `IExtension`.
+ * An options object for initializing a plugin registry.
  */
-class Extension implements IExtension {
+export
+interface IRegistryOptions {
   /**
-   * Create a new extension from a spec, contrib, and data.
-   *
-   * @param spec - The specification for the extension.
-   *
-   * @param contrib - The contribution for the extension, or `null`.
+   * The module loader for the registry.
    *
-   * @param data - The parsed JSON data for the extension, or `null`.
-   *
-   * @returns A new extension instance.
+   * The default is a new [[SystemLoader]].
    */
-  static create(spec: IExtensionSpec, contrib: IContrib, data: any): Extension {
-    return new Extension(spec.id, spec.point, contrib, data, spec.config);
-  }
+  loader?: IModuleLoader;
 
   /**
-   * Construct a new extension.
+   * Whether to automatically register the plugins required by a plugin.
    *
-   * @param id - The globally unique identifier of the extension.
+   * If this is `false`, a required plugin must be registered explicitly
+   * before the plugin which requires it finishes loading its manifest.
    *
-   * @param point - The identifier of the target extension point.
+   * The default is `false`.
+   */
+  registerDependencies?: boolean;
+
+  /**
+   * The load timeouts for the registry.
    *
-   * @param contrib - The contribution for the extension, or `null`.
+   * The default is no timeouts, and no settle wait.
+   */
+  timeouts?: ILoadTimeouts;
+
+  /**
+   * The number of times to retry a failed module or manifest fetch.
    *
-   * @param data - The parsed JSON data for the extension, or `null`.
+   * #### Notes
+   * Only a transient failure is retried, which is an error with a
+   * truthy `transient` property. A timeout is retried only if the
+   * `retryTimeouts` option is set.
    *
-   * @param config - The static configuration data, or `null`.
+   * The default is `0`.
    */
-  constructor(id: string, point: string, contrib: IContrib, data: any, config: any) {
-    this._id = id;
-    this._point = point;
-    this._data = data || null;
-    this._config = config || null;
-    this._contrib = contrib || null;
-  }
+  retries?: number;
 
   /**
-   * Dispose of the resources held by the extension.
+   * Whether to retry a fetch which exceeds its load timeout.
+   *
+   * The default is `false`.
    */
-  dispose(): void {
-    if (this._disposed) {
-      return;
-    }
-    this._disposed = true;
-    let temp = this._contrib;
-    this._data = null;
-    this._config = null;
-    this._contrib = null;
-    safeDispose(temp);
-  }
+  retryTimeouts?: boolean;
 
   /**
-   * Test whether the extension has been disposed.
+   * The delay in milliseconds before the first retry of a fetch.
+   *
+   * The delay is doubled for each subsequent retry.
+   *
+   * The default is `100`.
    */
-  get isDisposed(): boolean {
-    return this._disposed;
-  }
+  retryDelay?: number;
 
   /**
-   * The globally unique identifier of the extension.
+   * The store which persists the enabled state of the records.
+   *
+   * The default is a new [[MemoryStore]].
    */
-  get id(): string {
-    return this._id;
-  }
+  store?: IStateStore;
 
   /**
-   * The identifier of the target extension point.
+   * The number of receiver failures which quarantine a point.
+   *
+   * A quarantined extension point is no longer passed any extensions,
+   * and its receiver is no longer invoked. A value of `0` means that
+   * points are never quarantined.
+   *
+   * The default is `0`.
    */
-  get point(): string {
-    return this._point;
-  }
+  quarantine?: number;
 
   /**
-   * The behavioral object for the extension, or `null`.
+   * The rule for the namespaces of the ids declared by plugins.
+   *
+   * This is one of:
+   *
+   * - `'none'`: ids are not checked.
+   * - `'validate'`: the ids declared by a plugin must be prefixed
+   *   with its namespace and a `:`.
+   * - `'prefix'`: ids without a prefix are prefixed with the plugin
+   *   namespace. Prefixed ids are validated.
+   *
+   * The default is `'none'`.
    */
-  get item(): any {
-    return this._contrib ? this._contrib.item : null;
-  }
+  namespacing?: string;
 
   /**
-   * The parsed JSON data for the extension, or `null`.
+   * The namespaces which plugins are not allowed to claim.
+   *
+   * This is only consulted when namespacing is enabled.
    */
-  get data(): any {
-    return this._data;
-  }
+  reservedNamespaces?: string[];
+}
 
+
+/**
+ * An object which persists the enabled state of registry records.
+ *
+ * #### Notes
+ * A state store holds the choices made with `setPluginEnabled()` and
+ * `setExtensionEnabled()`, so that they survive a reload of the host.
+ */
+export
+interface IStateStore {
   /**
-   * The static configuration data for the extension, or `null`.
+   * Get the stored enabled state of a plugin or an extension.
+   *
+   * @param type - The type of the record, which is either a plugin
+   *   or an extension.
+   *
+   * @param id - The name of the plugin or the id of the extension.
+   *
+   * @returns The stored enabled state, or `null` if not stored.
    */
-  get config(): any {
-    return this._config;
-  }
+  getEnabled(type: RecordType, id: string): boolean;
 
-  private _id: string;
-  private _point: string;
-  private _data: any;
-  private _config: any;
-  private _disposed = false;
-  private _contrib: IContrib;
+  /**
+   * Store the enabled state of a plugin or an extension.
+   *
+   * @param type - The type of the record, which is either a plugin
+   *   or an extension.
+   *
+   * @param id - The name of the plugin or the id of the extension.
+   *
+   * @param enabled - Whether the record is enabled.
+   */
+  setEnabled(type: RecordType, id: string, enabled: boolean): void;
 }
 
 
 /**
- * An object which provides the specification for an extension.
+ * An object which specifies the timeouts for the loading phases.
+ *
+ * #### Notes
+ * Each timeout is a number of milliseconds. A load which does not
+ * finish in time fails with an error for the phase which timed out.
+ * A missing or zero timeout means the phase is never timed out.
  */
-interface IExtensionSpec {
+export
+interface ILoadTimeouts {
   /**
-   * The globally unique id of the extension.
+   * The timeout for fetching a plugin manifest.
    */
-  id: string;
+  manifest?: number;
 
   /**
-   * The identifier of the target extension point.
+   * The timeout for importing a main module.
    */
-  point: string;
+  module?: number;
 
   /**
-   * The name of the plugin which owns the extension.
+   * The timeout for importing a JSON data file.
    */
-  plugin?: string;
+  data?: number;
 
   /**
-   * The relative path to the extension main module.
+   * The timeout for a factory function to produce its result.
    */
-  main?: string;
+  factory?: number;
 
   /**
-   * The name of the factory function for the extension.
+   * The time to wait for the loading extensions which match a point
+   * to settle before the loaded extensions are added to the point.
+   *
+   * #### Notes
+   * By default, each extension is added at its sorted index as soon
+   * as it has loaded. A positive `settle` time batches the additions
+   * of a point, so the receiver sees them in sorted order, at the cost
+   * of holding back the extensions which load quickly. `Infinity`
+   * waits for every matching extension. The extensions which settle
+   * later are added to the point once they have loaded.
    */
-  factory?: string;
+  settle?: number;
+}
 
+
+/**
+ * An object which represents a registration with the plugin registry.
+ *
+ * Objects of this type are returned by the registration functions.
+ * Disposing the registration will unload the registered object.
+ */
+export
+interface IRegistration extends IDisposable {
   /**
-   * The path to the JSON data file for the extension.
+   * A promise which resolves when the registration is fully wired.
+   *
+   * #### Notes
+   * The promise resolves once the plugin specification is loaded,
+   * every record created by the registration has finished loading,
+   * and the resulting extensions have been added to their points.
+   *
+   * The promise rejects with the original error if any part of the
+   * registration fails to load.
+   *
+   * This is a read-only property.
    */
-  data?: string;
+  ready: Promise<void>;
 
   /**
-   * Extra static configuration data for the extension.
+   * A promise which resolves when the registration is fully unloaded.
+   *
+   * #### Notes
+   * The promise resolves once the registration is disposed, the
+   * pending loads of its records have settled, and the asynchronous
+   * disposal of its contributions, receivers, and services is done.
+   *
+   * The promise never rejects. Disposal errors are reported to the
+   * error handler of the registry.
+   *
+   * This is a read-only property.
    */
-  config?: any;
+  unloaded: Promise<void>;
 }
 
 
 /**
- * A registration record for an extension.
+ * An options object for discovering plugins.
  */
-interface IExtensionRecord {
+export
+interface IDiscoveryOptions {
   /**
-   * The life cycle state of the record.
+   * The plugin index, as the path of a JSON index file, the parsed
+   * index, or a promise which resolves to the parsed index.
+   *
+   * #### Notes
+   * The index is either an array of plugin names, or an object with
+   * a `plugins` field which holds the array of plugin names.
+   *
+   * A path has the form `<package>/<path>`, such as `my-app/plugins.json`,
+   * and the file is imported with the `importData` method of the module
+   * loader. The import is subject to the `manifest` timeout and the
+   * retry options of the registry.
+   *
+   * The default is the plugins listed by the module loader.
    */
-  state: RecordState;
+  catalog?: any;
 
   /**
-   * The specification of the extension.
+   * A name pattern which the discovered plugins must match.
+   *
+   * A `*` in the pattern matches any sequence of characters.
+   *
+   * The default matches every plugin.
    */
-  spec: IExtensionSpec;
+  pattern?: string;
 
   /**
-   * The loaded extension object, or `null` if not yet loaded.
+   * The names of the plugins which may be registered.
+   *
+   * The default allows every plugin.
    */
-  value: IExtension;
+  enabled?: string[];
 
   /**
-   * The loader promise for the record, or `null` if not loading.
+   * The names of the plugins which must not be registered.
+   *
+   * This takes precedence over the `enabled` names.
+   */
+  disabled?: string[];
+}
+
+
+/**
+ * An object which describes a registered plugin.
+ *
+ * #### Notes
+ * An info object is a snapshot of the plugin at the time it was
+ * requested. All properties of the object are treated as read-only.
+ */
+export
+interface IPluginInfo {
+  /**
+   * The name of the plugin.
+   */
+  name: string;
+
+  /**
+   * The current state of the plugin.
+   */
+  state: RecordState;
+
+  /**
+   * The package version of the plugin, or `null`.
+   */
+  version: string;
+
+  /**
+   * Whether the plugin was registered automatically as a requirement.
+   */
+  automatic: boolean;
+
+  /**
+   * The namespace of the ids declared by the plugin, or `null` if
+   * the plugin spec is not yet loaded.
+   */
+  namespace: string;
+
+  /**
+   * The path to the plugin main module, or `null`.
+   */
+  main: string;
+
+  /**
+   * Whether the plugin has been activated.
+   */
+  activated: boolean;
+
+  /**
+   * Whether the plugin is enabled.
+   */
+  enabled: boolean;
+
+  /**
+   * The names of the plugins required by the plugin.
+   */
+  requires: string[];
+
+  /**
+   * The ids of the extensions declared by the plugin.
+   */
+  extensions: string[];
+
+  /**
+   * The ids of the extension points declared by the plugin.
+   */
+  extensionPoints: string[];
+
+  /**
+   * The ids of the services provided by the plugin.
+   */
+  provides: string[];
+
+  /**
+   * The ids of the services consumed by the plugin.
+   */
+  consumes: string[];
+
+  /**
+   * The last error reported for the plugin, or `null`.
+   */
+  error: IPluginError;
+
+  /**
+   * The time at which the plugin started loading, or `null`.
+   *
+   * #### Notes
+   * Times are measured in milliseconds, as returned by `Date.now()`.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the plugin finished loading, or `null`.
+   */
+  loadFinished: number;
+}
+
+
+/**
+ * An object which describes a registered extension.
+ *
+ * #### Notes
+ * An info object is a snapshot of the extension at the time it was
+ * requested. All properties of the object are treated as read-only.
+ */
+export
+interface IExtensionInfo {
+  /**
+   * The globally unique id of the extension.
+   */
+  id: string;
+
+  /**
+   * The current state of the extension.
+   */
+  state: RecordState;
+
+  /**
+   * The name of the plugin which owns the extension, or `null`.
+   */
+  plugin: string;
+
+  /**
+   * The id of the target extension point.
+   *
+   * #### Notes
+   * This is the first of the `targets` of the extension.
+   */
+  point: string;
+
+  /**
+   * The ids and patterns of the points targeted by the extension.
+   */
+  targets: string[];
+
+  /**
+   * The ids of the extension points the extension has been added to.
+   */
+  points: string[];
+
+  /**
+   * The path to the extension main module, or `null`.
+   */
+  main: string;
+
+  /**
+   * The name of the extension factory function, or `null`.
+   */
+  factory: string;
+
+  /**
+   * The path to the extension JSON data file, or `null`.
+   */
+  data: string;
+
+  /**
+   * The static configuration data for the extension, or `null`.
+   */
+  config: any;
+
+  /**
+   * The activation policy of the extension, or `null`.
+   */
+  activation: string;
+
+  /**
+   * Whether the extension has been activated.
+   */
+  active: boolean;
+
+  /**
+   * Whether the extension is enabled.
+   */
+  enabled: boolean;
+
+  /**
+   * The sort rank of the extension, or `null`.
+   */
+  rank: number;
+
+  /**
+   * The ids of the extensions which the extension precedes.
+   */
+  before: string[];
+
+  /**
+   * The ids of the extensions which the extension follows.
+   */
+  after: string[];
+
+  /**
+   * Whether the extension has been added to an extension point.
+   */
+  connected: boolean;
+
+  /**
+   * The last error reported for the extension, or `null`.
+   */
+  error: IPluginError;
+
+  /**
+   * The time at which the extension started loading, or `null`.
+   *
+   * #### Notes
+   * This is `null` for an extension which was registered directly.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the extension finished loading, or `null`.
+   */
+  loadFinished: number;
+}
+
+
+/**
+ * An object which describes a registered extension point.
+ *
+ * #### Notes
+ * An info object is a snapshot of the point at the time it was
+ * requested. All properties of the object are treated as read-only.
+ */
+export
+interface IPointInfo {
+  /**
+   * The globally unique id of the extension point.
+   */
+  id: string;
+
+  /**
+   * The current state of the extension point.
+   */
+  state: RecordState;
+
+  /**
+   * The name of the plugin which owns the point, or `null`.
+   */
+  plugin: string;
+
+  /**
+   * The path to the extension point main module, or `null`.
+   */
+  main: string;
+
+  /**
+   * The name of the extension point factory function, or `null`.
+   */
+  factory: string;
+
+  /**
+   * The activation policy of the extension point, or `null`.
+   */
+  activation: string;
+
+  /**
+   * Whether the extension point has been activated.
+   */
+  active: boolean;
+
+  /**
+   * The ids of the extensions added to the point, in order.
+   */
+  extensions: string[];
+
+  /**
+   * The ids of the loaded extensions held back because the point is
+   * full.
+   */
+  reserved: string[];
+
+  /**
+   * The minimum number of extensions required by the point.
+   */
+  min: number;
+
+  /**
+   * The maximum number of extensions accepted by the point, or `null`
+   * if the number is unlimited.
+   */
+  max: number;
+
+  /**
+   * The policy for resolving a conflict when the point is full.
+   */
+  conflict: string;
+
+  /**
+   * The number of times the receiver of the point has failed.
+   */
+  failures: number;
+
+  /**
+   * Whether the point was quarantined after repeated failures.
+   */
+  quarantined: boolean;
+
+  /**
+   * The last error reported for the extension point, or `null`.
+   */
+  error: IPluginError;
+
+  /**
+   * The time at which the point started loading, or `null`.
+   *
+   * #### Notes
+   * This is `null` for a point which was registered directly.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the point finished loading, or `null`.
+   */
+  loadFinished: number;
+}
+
+
+/**
+ * A live list of the extensions added to an extension point.
+ *
+ * #### Notes
+ * The list is kept up to date by the registry as extensions are added
+ * to and removed from the point. This allows a host to consume a point
+ * which is declared purely in JSON, without writing a receiver.
+ */
+export
+interface IExtensionList {
+  /**
+   * The id of the extension point.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  point: string;
+
+  /**
+   * A new array of the current extensions of the point, in order.
+   *
+   * #### Notes
+   * Each extension provides its `item`, `data`, and `config`.
+   *
+   * This is a read-only property.
+   */
+  extensions: IExtension[];
+
+  /**
+   * Add a listener for the changes to the list.
+   *
+   * @param listener - The function to invoke when the list changes.
+   *
+   * @returns A disposable which will remove the listener.
+   */
+  onChanged(listener: ExtensionListListener): IDisposable;
+}
+
+
+/**
+ * An object which describes a change to an extension list.
+ */
+export
+interface IExtensionListChange {
+  /**
+   * The type of the change, either `'add'` or `'remove'`.
+   */
+  type: string;
+
+  /**
+   * The id of the extension which was added or removed.
+   */
+  id: string;
+
+  /**
+   * The index of the extension in the list.
+   */
+  index: number;
+}
+
+
+/**
+ * A type alias for an extension list listener function.
+ */
+export
+type ExtensionListListener = (change: IExtensionListChange) => void;
+
+
+/**
+ * A typed token which identifies a service.
+ *
+ * #### Notes
+ * A service token associates a service id with the type of the
+ * service, so that a resolved service is correctly typed. A plain
+ * service id can be used wherever a token is accepted.
+ */
+export
+class ServiceToken<T> {
+  /**
+   * Construct a new service token.
+   *
+   * @param id - The globally unique id of the service.
+   */
+  constructor(id: string) {
+    this._id = id;
+  }
+
+  /**
+   * Get the globally unique id of the service.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  private _id: string;
+  private _service: T;
+}
+
+
+/**
+ * A typed token which identifies an extension point contract.
+ *
+ * #### Notes
+ * A point token associates an extension point id with the types of
+ * the `item`, `data`, and `config` of its extensions. Registering an
+ * extension or an extension point with a token allows the compiler to
+ * check the extension against the contract of the point.
+ */
+export
+class PointToken<TItem, TData, TConfig> {
+  /**
+   * Construct a new point token.
+   *
+   * @param id - The globally unique id of the extension point.
+   */
+  constructor(id: string) {
+    this._id = id;
+  }
+
+  /**
+   * Get the globally unique id of the extension point.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  private _id: string;
+  private _item: TItem;
+  private _data: TData;
+  private _config: TConfig;
+}
+
+
+/**
+ * A registry which manages plugins, extensions, and extension points.
+ *
+ * #### Notes
+ * Each registry owns its own plugins, extensions, and extension points,
+ * and is isolated from every other registry. This makes it possible to
+ * run several independent plugin hosts in the same page.
+ *
+ * The free functions exported by this module operate on a default
+ * registry which is shared by the entire application.
+ */
+export
+class PluginRegistry {
+  /**
+   * Construct a new plugin registry.
+   *
+   * @param options - The options for initializing the registry.
+   */
+  constructor(options: IRegistryOptions = {}) {
+    this._data = createRegistryData(options.loader || new SystemLoader());
+    this._data.registerDependencies = !!options.registerDependencies;
+    this._data.timeouts = options.timeouts || {};
+    this._data.store = options.store || new MemoryStore();
+    this._data.quarantine = options.quarantine || 0;
+    this._data.namespacing = createNamespacing(options.namespacing || 'none');
+    this._data.reservedNamespaces = (options.reservedNamespaces || []).slice();
+    if (options.retries !== void 0) this._data.retries = options.retries;
+    if (options.retryDelay !== void 0) this._data.retryDelay = options.retryDelay;
+    this._data.retryTimeouts = !!options.retryTimeouts;
+    this._data.owner = this;
+  }
+
+  /**
+   * Get the module loader used by the registry.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get loader(): IModuleLoader {
+    return this._data.loader;
+  }
+
+  /**
+   * Get the state store used by the registry.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get store(): IStateStore {
+    return this._data.store;
+  }
+
+  /**
+   * List the names of the currently registered plugins.
+   *
+   * @returns A new array of the current plugin names.
+   */
+  listPlugins(): string[] {
+    return Object.keys(this._data.plugins);
+  }
+
+  /**
+   * List the ids of the currently registered extensions.
+   *
+   * @returns A new array of the current extension ids.
+   */
+  listExtensions(): string[] {
+    return Object.keys(this._data.extensions);
+  }
+
+  /**
+   * List the ids of the currently registered extension points.
+   *
+   * @returns A new array of the current extension point ids.
+   */
+  listExtensionPoints(): string[] {
+    return Object.keys(this._data.points);
+  }
+
+  /**
+   * Get a description of a registered plugin.
+   *
+   * @param name - The name of the plugin of interest.
+   *
+   * @returns A new info object for the plugin, or `null` if the
+   *   plugin is not registered.
+   */
+  getPluginInfo(name: string): IPluginInfo {
+    let record = this._data.plugins[name];
+    return record ? createPluginInfo(record) : null;
+  }
+
+  /**
+   * Get a description of a registered extension.
+   *
+   * @param id - The id of the extension of interest.
+   *
+   * @returns A new info object for the extension, or `null` if the
+   *   extension is not registered.
+   */
+  getExtensionInfo(id: string): IExtensionInfo {
+    let record = this._data.extensions[id];
+    return record ? createExtensionInfo(this._data, record) : null;
+  }
+
+  /**
+   * Get a description of a registered extension point.
+   *
+   * @param id - The id of the extension point of interest.
+   *
+   * @returns A new info object for the point, or `null` if the
+   *   point is not registered.
+   */
+  getPointInfo(id: string): IPointInfo {
+    let record = this._data.points[id];
+    return record ? createPointInfo(record) : null;
+  }
+
+  /**
+   * Get the live list of the extensions added to an extension point.
+   *
+   * @param id - The id of the extension point of interest.
+   *
+   * @returns The live extension list for the point.
+   *
+   * #### Notes
+   * The list is available before the point is registered. It is empty
+   * until the point is loaded, and is emptied when the point is
+   * disposed. The same list is reused when a point with the same id
+   * is registered again, so its listeners keep receiving changes.
+   */
+  getExtensions(id: string): IExtensionList {
+    return getList(this._data, id);
+  }
+
+  /**
+   * Register a plugin and load its JSON specification.
+   *
+   * @param name - The name of the plugin to register.
+   *
+   * @returns A registration which will unload the plugin.
+   *
+   * @throws An error if the plugin name is already registered.
+   *
+   * #### Notes
+   * A plugin name is the same as the name of the package which contains
+   * the plugin specification. For a plugin named `my-plugin`, this will
+   * load the `my-plugin/package.json` file. The `phosphor-plugin` field
+   * in that file will be used to configure the plugin.
+   *
+   * The extensions and points of a plugin are not registered until all
+   * of the plugins it requires have finished loading.
+   */
+  registerPlugin(name: string): IRegistration {
+    let registry = this._data;
+
+    // Throw an error if the plugin name is registered.
+    if (name in registry.plugins) {
+      throw new Error(`Plugin '${name}' is already registered.`);
+    }
+
+    // Add and load a new record for the plugin.
+    let ready = addPlugin(registry, name);
+
+    // Return a registration which will unload the plugin.
+    return new Registration(ready, () => {
+      return disposePlugin(registry, name);
+    });
+  }
+
+  /**
+   * Discover the available plugins and register them as a batch.
+   *
+   * @param options - The options for discovering the plugins.
+   *
+   * @returns A registration which will unload the discovered plugins.
+   *
+   * #### Notes
+   * The plugins are read from the catalog if one is given, and a
+   * catalog path is imported with the module loader. Otherwise, they
+   * are listed by the module loader, which must implement the optional
+   * `listPlugins` method.
+   *
+   * The discovered plugins are filtered by the name pattern and the
+   * enabled and disabled names. Plugins which are already registered
+   * are skipped, and are not unloaded by the registration.
+   *
+   * The `ready` promise resolves once every discovered plugin is fully
+   * wired, and rejects if the discovery or any of the plugins fail.
+   */
+  discoverPlugins(options: IDiscoveryOptions = {}): IRegistration {
+    let registry = this._data;
+
+    // Setup the names of the plugins registered by the batch.
+    let names: string[] = [];
+    let token = new DisposalToken();
+
+    // Register the plugins once they are discovered.
+    let ready = discoverNames(registry, options, token).then(found => {
+      if (token.isDisposed) {
+        return;
+      }
+      let promises: Promise<void>[] = [];
+      for (let name of found) {
+        if (name in registry.plugins) {
+          continue;
+        }
+        names.push(name);
+        promises.push(addPlugin(registry, name));
+      }
+      return settleAll(promises);
+    });
+
+    // Return a registration which will unload the plugins.
+    return new Registration(ready, () => {
+      token.dispose();
+      return settleAll(names.map(name => disposePlugin(registry, name)));
+    });
+  }
+
+  /**
+   * Reload the specification of a registered plugin.
+   *
+   * @param name - The name of the plugin to reload.
+   *
+   * @param changed - The paths of the plugin modules and data files
+   *   which have changed, relative to the plugin.
+   *
+   * @returns A promise which resolves when the reloaded extensions,
+   *   points, and services are wired, and the removed ones have
+   *   finished their disposal.
+   *
+   * #### Notes
+   * The plugin manifest is fetched again and compared with the current
+   * specification. Only the extensions, points, and services which were
+   * added, removed, or changed are unloaded or recreated. A record also
+   * counts as changed if its `main` or `data` path is in `changed`.
+   *
+   * A recreated extension is removed from its live extension point and
+   * the new extension is added in its place. A recreated point receives
+   * all of its currently loaded extensions.
+   *
+   * The returned promise rejects if the plugin is not loaded, if the
+   * new manifest is invalid, or if the plugin requirements changed.
+   * In those cases the current plugin is left untouched.
+   *
+   * The plugin main module is not reloaded, since its `activate` and
+   * `deactivate` hooks are not rerun. The returned promise rejects if
+   * the `main` path of the plugin changed or is in `changed`, and the
+   * plugin must be disposed and registered again instead.
+   */
+  reloadPlugin(name: string, changed: string[] = []): Promise<void> {
+    let registry = this._data;
+
+    // Reject if the plugin is not loaded.
+    let record = registry.plugins[name];
+    if (!record || record.state !== RecordState.Loaded) {
+      return Promise.reject(new Error(`Plugin '${name}' is not loaded.`));
+    }
+
+    // Reload the plugin record.
+    return reloadPluginRecord(registry, record, changed);
+  }
+
+  /**
+   * Test whether a plugin is enabled.
+   *
+   * @param name - The name of the plugin of interest.
+   *
+   * @returns Whether the plugin is enabled, as stored in the state
+   *   store of the registry. A plugin is enabled by default.
+   */
+  isPluginEnabled(name: string): boolean {
+    return this._data.store.getEnabled(RecordType.Plugin, name) !== false;
+  }
+
+  /**
+   * Enable or disable a plugin.
+   *
+   * @param name - The name of the plugin of interest.
+   *
+   * @param enabled - Whether the plugin should be enabled.
+   *
+   * @returns A promise which resolves when the extensions and points
+   *   of an enabled plugin are loaded and connected.
+   *
+   * #### Notes
+   * The choice is saved to the state store, so it also applies to a
+   * plugin which is not yet registered.
+   *
+   * A disabled plugin remains registered, but its extensions and points
+   * are unloaded. Its services remain available, since other plugins
+   * may depend on them.
+   *
+   * The change listeners are notified of the new enabled state.
+   */
+  setPluginEnabled(name: string, enabled: boolean): Promise<void> {
+    let registry = this._data;
+
+    // Save the choice to the state store.
+    registry.store.setEnabled(RecordType.Plugin, name, enabled);
+
+    // Apply the choice to the registered plugin.
+    let record = registry.plugins[name];
+    return record ? enablePlugin(registry, record, enabled) : Promise.resolve<void>();
+  }
+
+  /**
+   * Test whether an extension is enabled.
+   *
+   * @param id - The id of the extension of interest.
+   *
+   * @returns Whether the extension is enabled, as stored in the state
+   *   store of the registry. An extension is enabled by default.
+   */
+  isExtensionEnabled(id: string): boolean {
+    return this._data.store.getEnabled(RecordType.Extension, id) !== false;
+  }
+
+  /**
+   * Enable or disable an extension.
+   *
+   * @param id - The id of the extension of interest.
+   *
+   * @param enabled - Whether the extension should be enabled.
+   *
+   * @returns A promise which resolves when an enabled extension is
+   *   loaded and connected.
+   *
+   * #### Notes
+   * The choice is saved to the state store, so it also applies to an
+   * extension which is not yet registered.
+   *
+   * A disabled extension remains registered, but it is unloaded: it is
+   * removed from its extension points and its contribution is disposed.
+   * It is loaded and added back when it is enabled. This matches a
+   * disabled plugin, which remains registered while its contents are
+   * unloaded.
+   *
+   * The change listeners are notified of the new enabled state.
+   */
+  setExtensionEnabled(id: string, enabled: boolean): Promise<void> {
+    let registry = this._data;
+
+    // Save the choice to the state store.
+    registry.store.setEnabled(RecordType.Extension, id, enabled);
+
+    // Apply the choice to the registered extension.
+    let record = registry.extensions[id];
+    return record ? enableExtension(registry, record, enabled) : Promise.resolve<void>();
+  }
+
+  /**
+   * Register an extension and connect the matching extension point.
+   *
+   * @param extension - The extension object to register.
+   *
+   * @returns A registration which will unload the extension.
+   *
+   * @throws An error if the extension id is already registered.
+   *
+   * #### Notes
+   * This method can be used to dynamically register an extension which
+   * is created at runtime. Most extensions are registered automatically
+   * as part of registering their owner plugin.
+   */
+  registerExtension(extension: IExtension): IRegistration;
+
+  /**
+   * Register a typed extension for the extension point of a token.
+   *
+   * @param token - The token for the target extension point.
+   *
+   * @param extension - The extension object to register.
+   *
+   * @returns A registration which will unload the extension.
+   *
+   * @throws An error if the extension id is already registered, or if
+   *   the extension does not target the point of the token.
+   */
+  registerExtension<I, D, C>(token: PointToken<I, D, C>, extension: ITypedExtension<I, D, C>): IRegistration;
+  registerExtension(arg: any, extension?: IExtension): IRegistration {
+    let registry = this._data;
+
+    // Unpack the arguments and check the target point of a token.
+    if (arg instanceof PointToken) {
+      checkPointToken(arg, extension.point);
+    } else {
+      extension = arg;
+    }
+
+    // Throw an error if the extension id is registered.
+    if (extension.id in registry.extensions) {
+      throw new Error(`Extension '${extension.id}' is already registered.`);
+    }
+
+    // Create a compatible spec for the extension.
+    let spec: IExtensionSpec = {
+      id: extension.id,
+      point: extension.point,
+      targets: [extension.point],
+    };
+    if (typeof extension.rank === 'number') spec.rank = extension.rank;
+    if (extension.before) spec.before = extension.before.slice();
+    if (extension.after) spec.after = extension.after.slice();
+
+    // Create a new loaded record for the extension.
+    let record: IExtensionRecord = {
+      state: RecordState.Loaded,
+      spec: spec,
+      value: extension,
+      promise: null,
+      active: true,
+      enabled: registry.store.getEnabled(RecordType.Extension, spec.id) !== false,
+      token: null,
+      addErrors: createMap<any>(),
+      pairs: createMap<Extension>(),
+      error: null,
+      loadStarted: null,
+      loadFinished: null,
+    };
+
+    // Add the record to the extension registry.
+    registry.extensions[spec.id] = record;
+    notifyChanged(registry, RecordType.Extension, spec.id, null, record.state, record.enabled);
+
+    // Load any matching extension point.
+    let ready = loadMatchingPoint(registry, record);
+
+    // Return a registration which will unload the extension.
+    return new Registration(ready, () => {
+      return disposeExtension(registry, spec.id);
+    });
+  }
+
+  /**
+   * Register an extension point and connect the matching extensions.
+   *
+   * @param point - The extension point object to register.
+   *
+   * @returns A registration which will unload the extension point.
+   *
+   * @throws An error if the extension point id is already registered,
+   *   if the cardinality or conflict policy of the point is invalid,
+   *   or if a `pattern` of the point schema is invalid.
+   *
+   * #### Notes
+   * This method can be used to dynamically register an extension point
+   * which is created at runtime. Most extension points are registered
+   * automatically as part of registering their owner plugin.
+   */
+  registerExtensionPoint(point: IExtensionPoint): IRegistration;
+
+  /**
+   * Register a typed extension point for a token.
+   *
+   * @param token - The token for the extension point.
+   *
+   * @param point - The extension point object to register.
+   *
+   * @returns A registration which will unload the extension point.
+   *
+   * @throws An error if the extension point id is already registered,
+   *   if the point id does not match the token, if the cardinality or
+   *   conflict policy of the point is invalid, or if a `pattern` of the
+   *   point schema is invalid.
+   */
+  registerExtensionPoint<I, D, C>(token: PointToken<I, D, C>, point: ITypedExtensionPoint<I, D, C>): IRegistration;
+  registerExtensionPoint(arg: any, point?: IExtensionPoint): IRegistration {
+    let registry = this._data;
+
+    // Unpack the arguments and check the id of a token.
+    if (arg instanceof PointToken) {
+      checkPointToken(arg, point.id);
+    } else {
+      point = arg;
+    }
+
+    // Throw an error if the extension point id is registered.
+    if (point.id in registry.points) {
+      throw new Error(`Extension point '${point.id}' is already registered.`);
+    }
+
+    // Create a compatible spec for the extension point.
+    let spec: IPointSpec = {
+      id: point.id,
+      schema: point.schema || null,
+      patterns: compileSchema(point.schema),
+      cardinality: createCardinality(point.cardinality || 'multiple'),
+      conflict: createConflictPolicy(point.conflict || 'first'),
+    };
+
+    // Create a new loaded record for the extension.
+    let record: IPointRecord = {
+      state: RecordState.Loaded,
+      spec: spec,
+      value: point,
+      promise: null,
+      active: true,
+      token: null,
+      delivered: [],
+      reserved: [],
+      list: getList(registry, point.id),
+      failures: 0,
+      quarantined: false,
+      error: null,
+      loadStarted: null,
+      loadFinished: null,
+    };
+
+    // Add the record to the registry.
+    registry.points[spec.id] = record;
+    notifyChanged(registry, RecordType.Point, spec.id, null, record.state);
+
+    // Load any matching extensions.
+    let ready = loadMatchingExtensions(registry, record);
+
+    // Return a registration which will unload the extension point.
+    return new Registration(ready, () => {
+      return disposePoint(registry, spec.id);
+    });
+  }
+
+  /**
+   * Activate an extension point and connect its active extensions.
+   *
+   * @param id - The id of the extension point to activate.
+   *
+   * @returns A promise which resolves when the point is loaded and
+   *   connected to its active extensions.
+   *
+   * #### Notes
+   * The returned promise rejects if the point is not registered, if
+   * the point or any of its extensions fail to load, or if fewer than
+   * the minimum number of extensions are connected to the point.
+   *
+   * An activated point is loaded even if it has no extensions. Lazy
+   * extensions of the point are not activated; use the
+   * [[requestExtensions]] method for that.
+   */
+  activatePoint(id: string): Promise<void> {
+    let registry = this._data;
+
+    // Reject if the extension point is not registered.
+    let pRecord = registry.points[id];
+    if (!pRecord) {
+      let msg = `Extension point '${id}' is not registered.`;
+      return Promise.reject(new Error(msg));
+    }
+
+    // Activate the point and enforce the minimum extension count.
+    return activatePointRecord(registry, pRecord).then(() => {
+      checkMinimum(registry, pRecord);
+    });
+  }
+
+  /**
+   * Activate an extension point along with all of its extensions.
+   *
+   * @param id - The id of the extension point of interest.
+   *
+   * @returns A promise which resolves with the extensions which are
+   *   connected to the point, in the order they were added.
+   *
+   * #### Notes
+   * This activates every matching extension, regardless of its
+   * activation policy. Extensions which fail to load are reported
+   * to the error handler and omitted from the result.
+   *
+   * The returned promise rejects if the point is not registered, if
+   * the point itself fails to load, or if fewer than the minimum number
+   * of extensions are connected to the point.
+   */
+  requestExtensions(id: string): Promise<IExtension[]> {
+    let registry = this._data;
+
+    // Reject if the extension point is not registered.
+    let pRecord = registry.points[id];
+    if (!pRecord) {
+      let msg = `Extension point '${id}' is not registered.`;
+      return Promise.reject(new Error(msg));
+    }
+
+    // Activate all of the extensions which match the point.
+    for (let key in registry.extensions) {
+      let eRecord = registry.extensions[key];
+      if (matchesPoint(eRecord.spec, id)) eRecord.active = true;
+    }
+
+    // Activate the point and collect the delivered extensions.
+    let error: any = null;
+    let promise = activatePointRecord(registry, pRecord);
+    return promise.catch(err => { error = err; }).then(() => {
+      if (pRecord.state !== RecordState.Loaded) {
+        throw error || new Error(`Extension point '${id}' is not loaded.`);
+      }
+      checkMinimum(registry, pRecord);
+      return pRecord.list.extensions;
+    });
+  }
+
+  /**
+   * Emit an activation event for the registry.
+   *
+   * @param event - The name of the activation event.
+   *
+   * @returns A promise which resolves when the activated points and
+   *   extensions are loaded and connected.
+   *
+   * #### Notes
+   * This activates the records with an `'event:<name>'` activation
+   * policy for the given event name. The event is remembered, so a
+   * record registered after the event is emitted is active at once.
+   */
+  emitActivationEvent(event: string): Promise<void> {
+    return activateEvent(this._data, event);
+  }
+
+  /**
+   * List the ids of the currently registered services.
+   *
+   * @returns A new array of the current service ids.
+   */
+  listServices(): string[] {
+    return Object.keys(this._data.services);
+  }
+
+  /**
+   * Register a service object which is created at runtime.
+   *
+   * @param token - The token or id of the service.
+   *
+   * @param service - The service object to register.
+   *
+   * @returns A registration which will unload the service.
+   *
+   * @throws An error if the service id is already registered.
+   *
+   * #### Notes
+   * If the service has a `dispose` method, it will be invoked when
+   * the service is unloaded. Most services are registered as part of
+   * registering the plugin which provides them.
+   */
+  registerService<T>(token: ServiceToken<T> | string, service: T): IRegistration {
+    let registry = this._data;
+    let id = serviceId(token);
+
+    // Throw an error if the service id is registered.
+    if (id in registry.services) {
+      throw new Error(`Service '${id}' is already registered.`);
+    }
+
+    // Create a new loaded record for the service.
+    let record: IServiceRecord = {
+      state: RecordState.Loaded,
+      spec: { id },
+      value: service,
+      promise: null,
+      token: null,
+      error: null,
+      loadStarted: null,
+      loadFinished: null,
+    };
+
+    // Add the record to the service registry.
+    registry.services[id] = record;
+    notifyChanged(registry, RecordType.Service, id, null, record.state);
+
+    // Return a registration which will unload the service.
+    return new Registration(Promise.resolve<void>(), () => {
+      return disposeService(registry, id);
+    });
+  }
+
+  /**
+   * Resolve a registered service.
+   *
+   * @param token - The token or id of the service to resolve.
+   *
+   * @returns A promise which resolves with the service object.
+   *
+   * #### Notes
+   * A service which is provided by a plugin is created on first use,
+   * and the same object is returned for every later request.
+   *
+   * The returned promise rejects if the service is not registered,
+   * or if the service fails to load.
+   */
+  resolveService<T>(token: ServiceToken<T> | string): Promise<T> {
+    return resolveServiceRecord(this._data, serviceId(token));
+  }
+
+  /**
+   * Add a listener for changes to the registry records.
+   *
+   * @param listener - The function to invoke when a record is added,
+   *   changes state, or is removed from the registry.
+   *
+   * @returns A disposable which will remove the listener.
+   *
+   * #### Notes
+   * Listeners are invoked synchronously, in the order in which they
+   * were added. A record which is removed from the registry reports
+   * a final state of either `Disposed` or `Failed`.
+   */
+  onChanged(listener: ChangeListener): IDisposable {
+    let listeners = this._data.listeners;
+    listeners.push(listener);
+    return new DisposableDelegate(() => {
+      let i = listeners.indexOf(listener);
+      if (i !== -1) listeners.splice(i, 1);
+    });
+  }
+
+  /**
+   * Set the handler which is invoked when an error occurs.
+   *
+   * @param handler - The error handler to use, or `null` to restore
+   *   the default handler.
+   *
+   * #### Notes
+   * The default handler is [[logPluginError]], which logs the error to
+   * the console. A custom handler can be used to display the errors to
+   * the user, or to forward them to a logging service.
+   */
+  setErrorHandler(handler: ErrorHandler): void {
+    this._data.errorHandler = handler || logPluginError;
+  }
+
+  private _data: IRegistryData;
+}
+
+
+/**
+ * Get the default plugin registry used by the module functions.
+ *
+ * The registry is created on first use.
+ */
+function defaultRegistry(): PluginRegistry {
+  return theDefaultRegistry || (theDefaultRegistry = new PluginRegistry());
+}
+
+
+/**
+ * The default plugin registry, or `null` if not yet created.
+ */
+var theDefaultRegistry: PluginRegistry = null;
+
+
+/**
+ * List the names of the currently registered plugins.
+ *
+ * @returns A new array of the current plugin names.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry.
+ */
+export
+function listPlugins(): string[] {
+  return defaultRegistry().listPlugins();
+}
+
+
+/**
+ * List the ids of the currently registered extensions.
+ *
+ * @returns A new array of the current extension ids.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry.
+ */
+export
+function listExtensions(): string[] {
+  return defaultRegistry().listExtensions();
+}
+
+
+/**
+ * List the ids of the currently registered extension points.
+ *
+ * @returns A new array of the current extension point ids.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry.
+ */
+export
+function listExtensionPoints(): string[] {
+  return defaultRegistry().listExtensionPoints();
+}
+
+
+/**
+ * Get a description of a registered plugin.
+ *
+ * @param name - The name of the plugin of interest.
+ *
+ * @returns A new info object for the plugin, or `null`.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry.
+ */
+export
+function getPluginInfo(name: string): IPluginInfo {
+  return defaultRegistry().getPluginInfo(name);
+}
+
+
+/**
+ * Get a description of a registered extension.
+ *
+ * @param id - The id of the extension of interest.
+ *
+ * @returns A new info object for the extension, or `null`.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry.
+ */
+export
+function getExtensionInfo(id: string): IExtensionInfo {
+  return defaultRegistry().getExtensionInfo(id);
+}
+
+
+/**
+ * Get a description of a registered extension point.
+ *
+ * @param id - The id of the extension point of interest.
+ *
+ * @returns A new info object for the point, or `null`.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry.
+ */
+export
+function getPointInfo(id: string): IPointInfo {
+  return defaultRegistry().getPointInfo(id);
+}
+
+
+/**
+ * Get the live list of the extensions added to an extension point.
+ *
+ * @param id - The id of the extension point of interest.
+ *
+ * @returns The live extension list for the point.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.getExtensions]] for more details.
+ */
+export
+function getExtensions(id: string): IExtensionList {
+  return defaultRegistry().getExtensions(id);
+}
+
+
+/**
+ * Register a plugin and load its JSON specification.
+ *
+ * @param name - The name of the plugin to register.
+ *
+ * @returns A registration which will unload the plugin.
+ *
+ * @throws An error if the plugin name is already registered.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.registerPlugin]] for more details.
+ */
+export
+function registerPlugin(name: string): IRegistration {
+  return defaultRegistry().registerPlugin(name);
+}
+
+
+/**
+ * Discover the available plugins and register them as a batch.
+ *
+ * @param options - The options for discovering the plugins.
+ *
+ * @returns A registration which will unload the discovered plugins.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.discoverPlugins]] for more details.
+ */
+export
+function discoverPlugins(options: IDiscoveryOptions = {}): IRegistration {
+  return defaultRegistry().discoverPlugins(options);
+}
+
+
+/**
+ * Reload the specification of a registered plugin.
+ *
+ * @param name - The name of the plugin to reload.
+ *
+ * @param changed - The paths of the plugin modules and data files
+ *   which have changed, relative to the plugin.
+ *
+ * @returns A promise which resolves when the reloaded records are wired,
+ *   and the removed records have finished their disposal.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.reloadPlugin]] for more details.
+ */
+export
+function reloadPlugin(name: string, changed: string[] = []): Promise<void> {
+  return defaultRegistry().reloadPlugin(name, changed);
+}
+
+
+/**
+ * Test whether a plugin is enabled.
+ *
+ * @param name - The name of the plugin of interest.
+ *
+ * @returns Whether the plugin is enabled.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.isPluginEnabled]] for more details.
+ */
+export
+function isPluginEnabled(name: string): boolean {
+  return defaultRegistry().isPluginEnabled(name);
+}
+
+
+/**
+ * Enable or disable a plugin.
+ *
+ * @param name - The name of the plugin of interest.
+ *
+ * @param enabled - Whether the plugin should be enabled.
+ *
+ * @returns A promise which resolves when the plugin contents are wired.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.setPluginEnabled]] for more details.
+ */
+export
+function setPluginEnabled(name: string, enabled: boolean): Promise<void> {
+  return defaultRegistry().setPluginEnabled(name, enabled);
+}
+
+
+/**
+ * Test whether an extension is enabled.
+ *
+ * @param id - The id of the extension of interest.
+ *
+ * @returns Whether the extension is enabled.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.isExtensionEnabled]] for more details.
+ */
+export
+function isExtensionEnabled(id: string): boolean {
+  return defaultRegistry().isExtensionEnabled(id);
+}
+
+
+/**
+ * Enable or disable an extension.
+ *
+ * @param id - The id of the extension of interest.
+ *
+ * @param enabled - Whether the extension should be enabled.
+ *
+ * @returns A promise which resolves when the extension is wired.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.setExtensionEnabled]] for more details.
+ */
+export
+function setExtensionEnabled(id: string, enabled: boolean): Promise<void> {
+  return defaultRegistry().setExtensionEnabled(id, enabled);
+}
+
+
+/**
+ * Register an extension and connect the matching extension point.
+ *
+ * @param extension - The extension object to register.
+ *
+ * @returns A registration which will unload the extension.
+ *
+ * @throws An error if the extension id is already registered.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.registerExtension]] for more details.
+ */
+export
+function registerExtension(extension: IExtension): IRegistration;
+
+/**
+ * Register a typed extension for the extension point of a token.
+ *
+ * @param token - The token for the target extension point.
+ *
+ * @param extension - The extension object to register.
+ *
+ * @returns A registration which will unload the extension.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.registerExtension]] for more details.
+ */
+export
+function registerExtension<I, D, C>(token: PointToken<I, D, C>, extension: ITypedExtension<I, D, C>): IRegistration;
+export
+function registerExtension(arg: any, extension?: IExtension): IRegistration {
+  return defaultRegistry().registerExtension(arg, extension);
+}
+
+
+/**
+ * Register an extension point and connect the matching extensions.
+ *
+ * @param point - The extension point object to register.
+ *
+ * @returns A registration which will unload the extension point.
+ *
+ * @throws An error if the extension point id is already registered.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.registerExtensionPoint]] for more details.
+ */
+export
+function registerExtensionPoint(point: IExtensionPoint): IRegistration;
+
+/**
+ * Register a typed extension point for a token.
+ *
+ * @param token - The token for the extension point.
+ *
+ * @param point - The extension point object to register.
+ *
+ * @returns A registration which will unload the extension point.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.registerExtensionPoint]] for more details.
+ */
+export
+function registerExtensionPoint<I, D, C>(token: PointToken<I, D, C>, point: ITypedExtensionPoint<I, D, C>): IRegistration;
+export
+function registerExtensionPoint(arg: any, point?: IExtensionPoint): IRegistration {
+  return defaultRegistry().registerExtensionPoint(arg, point);
+}
+
+
+/**
+ * Activate an extension point and connect its active extensions.
+ *
+ * @param id - The id of the extension point to activate.
+ *
+ * @returns A promise which resolves when the point is loaded.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.activatePoint]] for more details.
+ */
+export
+function activatePoint(id: string): Promise<void> {
+  return defaultRegistry().activatePoint(id);
+}
+
+
+/**
+ * Activate an extension point along with all of its extensions.
+ *
+ * @param id - The id of the extension point of interest.
+ *
+ * @returns A promise which resolves with the connected extensions.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.requestExtensions]] for more details.
+ */
+export
+function requestExtensions(id: string): Promise<IExtension[]> {
+  return defaultRegistry().requestExtensions(id);
+}
+
+
+/**
+ * Emit an activation event for the default registry.
+ *
+ * @param event - The name of the activation event.
+ *
+ * @returns A promise which resolves when the activated records are
+ *   loaded and connected.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.emitActivationEvent]] for more details.
+ */
+export
+function emitActivationEvent(event: string): Promise<void> {
+  return defaultRegistry().emitActivationEvent(event);
+}
+
+
+/**
+ * List the ids of the currently registered services.
+ *
+ * @returns A new array of the current service ids.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry.
+ */
+export
+function listServices(): string[] {
+  return defaultRegistry().listServices();
+}
+
+
+/**
+ * Register a service object which is created at runtime.
+ *
+ * @param token - The token or id of the service.
+ *
+ * @param service - The service object to register.
+ *
+ * @returns A registration which will unload the service.
+ *
+ * @throws An error if the service id is already registered.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.registerService]] for more details.
+ */
+export
+function registerService<T>(token: ServiceToken<T> | string, service: T): IRegistration {
+  return defaultRegistry().registerService(token, service);
+}
+
+
+/**
+ * Resolve a registered service.
+ *
+ * @param token - The token or id of the service to resolve.
+ *
+ * @returns A promise which resolves with the service object.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.resolveService]] for more details.
+ */
+export
+function resolveService<T>(token: ServiceToken<T> | string): Promise<T> {
+  return defaultRegistry().resolveService(token);
+}
+
+
+/**
+ * Add a listener for changes to the registry records.
+ *
+ * @param listener - The function to invoke when a record is added,
+ *   changes state, or is removed from the registry.
+ *
+ * @returns A disposable which will remove the listener.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.onChanged]] for more details.
+ */
+export
+function onRegistryChanged(listener: ChangeListener): IDisposable {
+  return defaultRegistry().onChanged(listener);
+}
+
+
+/**
+ * Set the handler which is invoked when an error occurs.
+ *
+ * @param handler - The error handler to use, or `null` to restore
+ *   the default handler.
+ *
+ * #### Notes
+ * This function operates on the default plugin registry. See
+ * [[PluginRegistry.setErrorHandler]] for more details.
+ */
+export
+function setErrorHandler(handler: ErrorHandler): void {
+  defaultRegistry().setErrorHandler(handler);
+}
+
+
+/**
+ * The default plugin error handler.
+ *
+ * @param error - The error to log to the console.
+ */
+export
+function logPluginError(error: IPluginError): void {
+  console.error(error.message);
+  console.error(error.cause);
+}
+
+
+//-----------------------------------------------------------------------------
+// Module Loaders
+//-----------------------------------------------------------------------------
+
+/**
+ * A module loader which uses the `System.import` function.
+ *
+ * #### Notes
+ * This is the default loader for a plugin registry. The `System`
+ * object must be configured to load the plugin packages by name.
+ *
+ * The loader ignores the cancellation token, since `System.import`
+ * cannot be aborted.
+ */
+export
+class SystemLoader implements IModuleLoader {
+  /**
+   * Construct a new system loader.
+   *
+   * @param system - The `System` object to use for importing. The
+   *   default is the global `System` object at the time of import.
+   */
+  constructor(system: { import(path: string): Promise<any> } = null) {
+    this._system = system;
+  }
+
+  /**
+   * Load the package manifest for a plugin.
+   */
+  loadManifest(plugin: string): Promise<any> {
+    return this._import(joinPath(plugin, 'package.json'));
+  }
+
+  /**
+   * Import a module which belongs to a plugin.
+   */
+  importModule(plugin: string, path: string): Promise<any> {
+    return this._import(joinPath(plugin, path));
+  }
+
+  /**
+   * Import a JSON data file which belongs to a plugin.
+   */
+  importData(plugin: string, path: string): Promise<any> {
+    return this._import(joinPath(plugin, path));
+  }
+
+  /**
+   * Import the module with the given full path.
+   */
+  private _import(path: string): Promise<any> {
+    return Promise.resolve().then(() => {
+      return (this._system || System).import(path);
+    });
+  }
+
+  private _system: { import(path: string): Promise<any> };
+}
+
+
+/**
+ * A module loader which uses the native dynamic `import()` function.
+ *
+ * #### Notes
+ * The `import()` function is supplied by the application, since the
+ * syntax cannot be emitted by this module. JSON files are fetched and
+ * parsed, rather than imported as JSON modules.
+ *
+ * The loader ignores the cancellation token, since `import()` cannot
+ * be aborted. A network error or a server error status of the default
+ * JSON fetch is marked as transient, so that it may be retried.
+ */
+export
+class NativeLoader implements IModuleLoader {
+  /**
+   * Construct a new native loader.
+   *
+   * @param options - The options for initializing the loader.
+   *
+   * @throws An error if the `importer` option is not a function.
+   */
+  constructor(options: INativeLoaderOptions) {
+    if (!options || typeof options.importer !== 'function') {
+      throw new Error('Native loader `importer` must be a function.');
+    }
+    this._importer = options.importer;
+    this._resolve = options.resolve || joinPath;
+    this._fetchJSON = options.fetchJSON || fetchJSON;
+  }
+
+  /**
+   * Load the package manifest for a plugin.
+   */
+  loadManifest(plugin: string): Promise<any> {
+    return this.importData(plugin, 'package.json');
+  }
+
+  /**
+   * Import a module which belongs to a plugin.
+   */
+  importModule(plugin: string, path: string): Promise<any> {
+    return Promise.resolve().then(() => {
+      return this._importer(this._specifier(plugin, path));
+    });
+  }
+
+  /**
+   * Import a JSON data file which belongs to a plugin.
+   */
+  importData(plugin: string, path: string): Promise<any> {
+    return Promise.resolve().then(() => {
+      return this._fetchJSON(this._specifier(plugin, path));
+    });
+  }
+
+  /**
+   * Discard the cached modules and data files of a plugin.
+   *
+   * #### Notes
+   * Native modules cannot be evicted from the module cache, so later
+   * imports for the plugin append a version query to the specifier.
+   * This requires the specifiers to be URLs.
+   */
+  invalidate(plugin: string): void {
+    this._versions[plugin] = (this._versions[plugin] || 0) + 1;
+  }
+
+  /**
+   * Create the module specifier for a plugin path.
+   */
+  private _specifier(plugin: string, path: string): string {
+    let specifier = this._resolve(plugin, path);
+    let version = this._versions[plugin];
+    if (!version) {
+      return specifier;
+    }
+    let sep = specifier.indexOf('?') === -1 ? '?' : '&';
+    return `${specifier}${sep}v=${version}`;
+  }
+
+  private _importer: (specifier: string) => Promise<any>;
+  private _resolve: (plugin: string, path: string) => string;
+  private _fetchJSON: (specifier: string) => Promise<any>;
+  private _versions = createMap<number>();
+}
+
+
+/**
+ * A module loader which serves modules from an in-memory map.
+ *
+ * #### Notes
+ * The keys of the map are the full module paths, such as `foo/index.js`
+ * or `foo/package.json`. The values are the module exports or the parsed
+ * JSON data. A value may also be a promise which resolves to the module,
+ * which allows bundled modules to be loaded on demand.
+ *
+ * This loader is useful for bundled applications and for testing.
+ * It ignores the cancellation token, and a missing path is not a
+ * transient failure.
+ */
+export
+class MapLoader implements IModuleLoader {
+  /**
+   * Construct a new map loader.
+   *
+   * @param modules - The initial mapping of path to module.
+   */
+  constructor(modules: { [path: string]: any } = {}) {
+    for (let path in modules) {
+      this._modules[path] = modules[path];
+    }
+  }
+
+  /**
+   * Set the module for a full module path.
+   *
+   * @param path - The full path of the module.
+   *
+   * @param value - The module exports or parsed JSON data.
+   */
+  set(path: string, value: any): void {
+    this._modules[path] = value;
+  }
+
+  /**
+   * Delete the module for a full module path.
+   *
+   * @param path - The full path of the module.
+   */
+  delete(path: string): void {
+    delete this._modules[path];
+  }
+
+  /**
+   * Load the package manifest for a plugin.
+   */
+  loadManifest(plugin: string): Promise<any> {
+    return this._import(joinPath(plugin, 'package.json'));
+  }
+
+  /**
+   * Import a module which belongs to a plugin.
+   */
+  importModule(plugin: string, path: string): Promise<any> {
+    return this._import(joinPath(plugin, path));
+  }
+
+  /**
+   * Import a JSON data file which belongs to a plugin.
+   */
+  importData(plugin: string, path: string): Promise<any> {
+    return this._import(joinPath(plugin, path));
+  }
+
+  /**
+   * Scan for the names of the plugins which can be loaded.
+   *
+   * #### Notes
+   * A plugin is available if its `package.json` path is defined.
+   */
+  listPlugins(): Promise<string[]> {
+    let names: string[] = [];
+    for (let path in this._modules) {
+      let match = path.match(/^(.+)\/package\.json$/);
+      if (match) names.push(match[1]);
+    }
+    return Promise.resolve(names.sort());
+  }
+
+  /**
+   * Import the module with the given full path.
+   */
+  private _import(path: string): Promise<any> {
+    if (!(path in this._modules)) {
+      return Promise.reject(new Error(`Module '${path}' is not defined.`));
+    }
+    return Promise.resolve(this._modules[path]);
+  }
+
+  private _modules = createMap<any>();
+}
+
+
+/**
+ * Join a plugin name and a relative path into a full module path.
+ */
+function joinPath(plugin: string, path: string): string {
+  return `${plugin}/${path}`;
+}
+
+
+/**
+ * Fetch and parse a JSON file using the global `fetch` function.
+ *
+ * The returned promise rejects if `fetch` is not available, or if the
+ * response is not successful. A network error, a server error and a
+ * rate limit or request timeout status are marked as transient.
+ */
+function fetchJSON(specifier: string): Promise<any> {
+  return Promise.resolve().then(() => {
+    if (typeof fetch !== 'function') {
+      throw new Error('The global `fetch` function is not available.');
+    }
+    return fetch(specifier).catch((err): IFetchResponse => {
+      throw markTransient(err);
+    });
+  }).then(response => {
+    if (!response.ok) {
+      let err = new Error(`Failed to fetch '${specifier}' (status ${response.status}).`);
+      let status = response.status;
+      throw status >= 500 || status === 408 || status === 429 ? markTransient(err) : err;
+    }
+    return response.json();
+  });
+}
+
+
+/**
+ * Mark an error as a transient failure which may be retried.
+ */
+function markTransient(err: any): any {
+  if (err !== null && typeof err === 'object') err.transient = true;
+  return err;
+}
+
+
+/**
+ * The global `fetch` function, which is not declared by the typings.
+ */
+declare var fetch: (url: string) => Promise<IFetchResponse>;
+
+
+/**
+ * The subset of a fetch response used by the native loader.
+ */
+interface IFetchResponse {
+  /**
+   * Whether the response status is successful.
+   */
+  ok: boolean;
+
+  /**
+   * The status code of the response.
+   */
+  status: number;
+
+  /**
+   * Read the response body as parsed JSON.
+   */
+  json(): Promise<any>;
+}
+
+
+//-----------------------------------------------------------------------------
+// State Stores
+//-----------------------------------------------------------------------------
+
+/**
+ * A state store which keeps the enabled states in memory.
+ *
+ * #### Notes
+ * This is the default store for a plugin registry. The stored states
+ * do not survive a reload of the host.
+ */
+export
+class MemoryStore implements IStateStore {
+  /**
+   * Get the stored enabled state of a plugin or an extension.
+   */
+  getEnabled(type: RecordType, id: string): boolean {
+    let key = stateKey(type, id);
+    return key in this._states ? this._states[key] : null;
+  }
+
+  /**
+   * Store the enabled state of a plugin or an extension.
+   */
+  setEnabled(type: RecordType, id: string, enabled: boolean): void {
+    this._states[stateKey(type, id)] = enabled;
+  }
+
+  private _states = createMap<boolean>();
+}
+
+
+/**
+ * A state store which keeps the enabled states in `localStorage`.
+ *
+ * #### Notes
+ * The states are saved as a JSON object under a single storage key.
+ * Invalid saved data is ignored.
+ */
+export
+class LocalStorageStore implements IStateStore {
+  /**
+   * Construct a new local storage store.
+   *
+   * @param key - The storage key for the saved states.
+   *
+   * @param storage - The storage object to use. The default is the
+   *   global `localStorage` object at the time of use.
+   */
+  constructor(key = 'phosphor-plugins', storage: Storage = null) {
+    this._key = key;
+    this._storage = storage;
+  }
+
+  /**
+   * Get the stored enabled state of a plugin or an extension.
+   */
+  getEnabled(type: RecordType, id: string): boolean {
+    let states = this._load();
+    let value = states[stateKey(type, id)];
+    return typeof value === 'boolean' ? value : null;
+  }
+
+  /**
+   * Store the enabled state of a plugin or an extension.
+   */
+  setEnabled(type: RecordType, id: string, enabled: boolean): void {
+    let states = this._load();
+    states[stateKey(type, id)] = enabled;
+    this._getStorage().setItem(this._key, JSON.stringify(states));
+  }
+
+  /**
+   * Load the saved states from the storage.
+   */
+  private _load(): StringMap<any> {
+    let states: any = null;
+    try {
+      states = JSON.parse(this._getStorage().getItem(this._key));
+    } catch (err) {
+      states = null;
+    }
+    return isObject(states) ? states : createMap<any>();
+  }
+
+  /**
+   * Get the storage object for the store.
+   */
+  private _getStorage(): Storage {
+    return this._storage || localStorage;
+  }
+
+  private _key: string;
+  private _storage: Storage;
+}
+
+
+/**
+ * Create the storage key for the enabled state of a record.
+ */
+function stateKey(type: RecordType, id: string): string {
+  return `${RecordType[type].toLowerCase()}:${id}`;
+}
+
+
+//-----------------------------------------------------------------------------
+// Common Functionality
+//-----------------------------------------------------------------------------
+
+/**
+ * A type alias for a string map.
+ */
+type StringMap<T> = { [id: string]: T };
+
+
+/**
+ * Create a new empty string map.
+ */
+function createMap<T>(): StringMap<T> {
+  return Object.create(null);
+}
+
+
+/**
+ * The private data for a plugin registry.
+ */
+interface IRegistryData {
+  /**
+   * The module loader for the registry.
+   */
+  loader: IModuleLoader;
+
+  /**
+   * Whether to automatically register required plugins.
+   */
+  registerDependencies: boolean;
+
+  /**
+   * The load timeouts for the registry.
+   */
+  timeouts: ILoadTimeouts;
+
+  /**
+   * The number of times to retry a failed fetch.
+   */
+  retries: number;
+
+  /**
+   * The delay in milliseconds before the first retry of a fetch.
+   */
+  retryDelay: number;
+
+  /**
+   * Whether to retry a fetch which exceeds its load timeout.
+   */
+  retryTimeouts: boolean;
+
+  /**
+   * The store for the enabled state of the records.
+   */
+  store: IStateStore;
+
+  /**
+   * The number of receiver failures which quarantine a point.
+   */
+  quarantine: number;
+
+  /**
+   * The rule for the namespaces of plugin ids.
+   */
+  namespacing: string;
+
+  /**
+   * The namespaces which plugins are not allowed to claim.
+   */
+  reservedNamespaces: string[];
+
+  /**
+   * A mapping of claimed namespace to owner plugin name.
+   */
+  namespaces: StringMap<string>;
+
+  /**
+   * A mapping of plugin name to plugin record.
+   */
+  plugins: StringMap<IPluginRecord>;
+
+  /**
+   * A mapping of extension id to extension record.
+   */
+  extensions: StringMap<IExtensionRecord>;
+
+  /**
+   * A mapping of extension point id to extension point record.
+   */
+  points: StringMap<IPointRecord>;
+
+  /**
+   * A mapping of extension point id to live extension list.
+   *
+   * A list outlives the point records with its id, so that a host can
+   * observe a point before it is registered and after it is replaced.
+   */
+  lists: StringMap<ExtensionList>;
+
+  /**
+   * A mapping of service id to service record.
+   */
+  services: StringMap<IServiceRecord>;
+
+  /**
+   * The current plugin error handler.
+   */
+  errorHandler: ErrorHandler;
+
+  /**
+   * The current registry change listeners.
+   */
+  listeners: ChangeListener[];
+
+  /**
+   * The set of activation events which have been emitted.
+   */
+  events: StringMap<boolean>;
+
+  /**
+   * The public registry which owns the data.
+   */
+  owner: PluginRegistry;
+}
+
+
+/**
+ * Create the private data for a new plugin registry.
+ */
+function createRegistryData(loader: IModuleLoader): IRegistryData {
+  return {
+    loader: loader,
+    registerDependencies: false,
+    timeouts: {},
+    retries: 0,
+    retryDelay: 100,
+    retryTimeouts: false,
+    store: null,
+    quarantine: 0,
+    namespacing: 'none',
+    reservedNamespaces: [],
+    namespaces: createMap<string>(),
+    plugins: createMap<IPluginRecord>(),
+    extensions: createMap<IExtensionRecord>(),
+    points: createMap<IPointRecord>(),
+    lists: createMap<ExtensionList>(),
+    services: createMap<IServiceRecord>(),
+    errorHandler: logPluginError,
+    listeners: [],
+    events: createMap<boolean>(),
+    owner: null,
+  };
+}
+
+
+/**
+ * An object which identifies the source of an error.
+ */
+interface IErrorSource {
+  /**
+   * The name of the plugin which owns the source, or `null`.
+   */
+  plugin: string;
+
+  /**
+   * The id of the extension involved in the error, or `null`.
+   */
+  extension: string;
+
+  /**
+   * The id of the extension point involved in the error, or `null`.
+   */
+  point: string;
+
+  /**
+   * The id of the service involved in the error, or `null`.
+   */
+  service: string;
+}
+
+
+/**
+ * Report an error to the current error handler.
+ *
+ * Errors thrown by the handler will be caught and logged.
+ *
+ * Returns the error object which was passed to the handler.
+ */
+function reportError(registry: IRegistryData, phase: ErrorPhase,
+                     source: IErrorSource, message: string, cause: any): IPluginError {
+  let error: IPluginError = {
+    phase: phase,
+    plugin: source.plugin,
+    extension: source.extension,
+    point: source.point,
+    service: source.service,
+    message: message,
+    cause: cause,
+  };
+  try {
+    registry.errorHandler(error);
+  } catch (err) {
+    console.error(err);
+  }
+  return error;
+}
+
+
+/**
+ * Notify the change listeners of a change to a registry record.
+ *
+ * Errors thrown by the listeners will be caught and logged.
+ */
+function notifyChanged(registry: IRegistryData, type: RecordType, id: string,
+                       plugin: string, state: RecordState, enabled = true): void {
+  let change: IRegistryChange = { type, id, plugin, state, enabled };
+  for (let listener of registry.listeners.slice()) {
+    try {
+      listener(change);
+    } catch (err) {
+      console.error(err);
+    }
+  }
+}
+
+
+/**
+ * An object which tracks the load times of a record.
+ */
+interface ILoadTimes {
+  /**
+   * The time at which the record started loading, or `null`.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the record finished loading, or `null`.
+   */
+  loadFinished: number;
+}
+
+
+/**
+ * Update the load times of a record for a new record state.
+ */
+function updateLoadTimes(times: ILoadTimes, state: RecordState): void {
+  if (state === RecordState.Loading) {
+    times.loadStarted = Date.now();
+  } else if (state === RecordState.Loaded || state === RecordState.Failed) {
+    times.loadFinished = Date.now();
+  }
+}
+
+
+/**
+ * Safely dispose of something which may be a disposable.
+ *
+ * All errors will be caught and reported for the given source.
+ *
+ * The returned promise resolves once a promise returned by `dispose`
+ * has settled. It never rejects.
+ */
+function safeDispose(registry: IRegistryData, obj: any, source: IErrorSource): Promise<void> {
+  if (!obj || typeof obj.dispose !== 'function') {
+    return Promise.resolve<void>();
+  }
+  let report = (err: any) => {
+    let id = source.extension || source.point || source.service || source.plugin;
+    let message = `Error occured while disposing '${id}'.`;
+    reportError(registry, ErrorPhase.Dispose, source, message, err);
+  };
+  try {
+    return Promise.resolve<void>(obj.dispose()).catch(report);
+  } catch (err) {
+    report(err);
+    return Promise.resolve<void>();
+  }
+}
+
+
+/**
+ * Wait for the pending loader promise of a record to settle.
+ *
+ * The returned promise never rejects.
+ */
+function whenSettled(record: { promise: Promise<void> }): Promise<void> {
+  return record.promise ? record.promise.catch(() => { }) : Promise.resolve<void>();
+}
+
+
+/**
+ * Wait for all of the given promises to settle.
+ *
+ * The returned promise resolves once every promise has settled. It
+ * rejects with the first error if any of the promises are rejected.
+ */
+function settleAll(promises: Promise<void>[]): Promise<void> {
+  let failed = false;
+  let error: any = null;
+  let settled = promises.map(promise => promise.catch(err => {
+    if (!failed) {
+      failed = true;
+      error = err;
+    }
+  }));
+  return Promise.all(settled).then(() => {
+    if (failed) throw error;
+  });
+}
+
+
+/**
+ * Wait for a loading promise, subject to a timeout and a token.
+ *
+ * The returned promise rejects if the timeout expires before the
+ * promise settles, or with a cancel error if the token is disposed.
+ *
+ * If given, the `release` function is invoked with a value which
+ * resolves after the returned promise was rejected.
+ */
+function guardLoad<T>(promise: Promise<T>, token: IDisposalToken, timeout: number,
+                      what: string, release: (value: T) => void = null): Promise<T> {
+  // Reject immediately if the token is already disposed.
+  if (token.isDisposed) {
+    promise.then(value => { if (release) release(value); }, () => { });
+    return Promise.reject(createCancelError(what));
+  }
+
+  // Otherwise, race the promise against the timeout and the token.
+  let done = false;
+  return new Promise<T>((resolve, reject) => {
+    // Setup the function which finishes the guard.
+    let timer: any = null;
+    let listener: IDisposable = null;
+    let finish = (): boolean => {
+      if (done) return false;
+      done = true;
+      if (timer !== null) clearTimeout(timer);
+      if (listener !== null) listener.dispose();
+      return true;
+    };
+
+    // Reject the promise if the timeout expires.
+    if (timeout > 0) {
+      timer = setTimeout(() => {
+        if (finish()) reject(createTimeoutError(what, timeout));
+      }, timeout);
+    }
+
+    // Reject the promise if the token is disposed.
+    listener = token.onDisposed(() => {
+      if (finish()) reject(createCancelError(what));
+    });
+
+    // Settle with the original promise, or release a late value.
+    promise.then(value => {
+      if (finish()) {
+        resolve(value);
+      } else if (release) {
+        release(value);
+      }
+    }, err => {
+      if (finish()) reject(err);
+    });
+  });
+}
+
+
+/**
+ * Fetch a resource with the loader, subject to a timeout and a token.
+ *
+ * A transient failure is retried according to the registry options,
+ * with an exponential backoff between the attempts. A timeout is only
+ * retried if the registry allows it, and a cancelled fetch is never
+ * retried.
+ */
+function fetchResource<T>(registry: IRegistryData, token: IDisposalToken,
+                          timeout: number, what: string, fetch: () => Promise<T>): Promise<T> {
+  let attempt = (n: number): Promise<T> => {
+    let promise = Promise.resolve().then(fetch);
+    return guardLoad(promise, token, timeout, what).catch((err): Promise<T> => {
+      if (n >= registry.retries || !isRetryable(registry, err)) {
+        throw err;
+      }
+      let delay = registry.retryDelay * Math.pow(2, n);
+      let wait = new Promise<void>(resolve => { setTimeout(resolve, delay); });
+      return guardLoad(wait, token, 0, what).then(() => attempt(n + 1));
+    });
+  };
+  return attempt(0);
+}
+
+
+/**
+ * Test whether a failed fetch may be retried.
+ */
+function isRetryable(registry: IRegistryData, err: any): boolean {
+  if (isCancelError(err)) {
+    return false;
+  }
+  if (isTimeoutError(err)) {
+    return registry.retryTimeouts;
+  }
+  return !!err && !!err.transient;
+}
+
+
+/**
+ * Create the error for a load which exceeded its timeout.
+ */
+function createTimeoutError(what: string, timeout: number): Error {
+  let err = new Error(`Timed out loading ${what} after ${timeout} ms.`);
+  err.name = 'TimeoutError';
+  return err;
+}
+
+
+/**
+ * Test whether an error was created for a timed out load.
+ */
+function isTimeoutError(err: any): boolean {
+  return !!err && err.name === 'TimeoutError';
+}
+
+
+/**
+ * Create the error for a load which was cancelled by a disposal.
+ */
+function createCancelError(what: string): Error {
+  let err = new Error(`Loading ${what} was cancelled.`);
+  err.name = 'CancelError';
+  return err;
+}
+
+
+/**
+ * Test whether an error was created for a cancelled load.
+ */
+function isCancelError(err: any): boolean {
+  return !!err && err.name === 'CancelError';
+}
+
+
+/**
+ * Import the main module of a plugin object with the loader.
+ */
+function importMain(registry: IRegistryData, plugin: string, path: string,
+                    token: IDisposalToken): Promise<any> {
+  let what = `module '${joinPath(plugin, path)}'`;
+  return fetchResource(registry, token, registry.timeouts.module, what, () => {
+    return registry.loader.importModule(plugin, path, token);
+  });
+}
+
+
+/**
+ * Run the factory function of a registry object.
+ *
+ * A result which resolves after the load timed out or was cancelled
+ * is disposed, since it has no owner.
+ */
+function runFactory(registry: IRegistryData, source: IErrorSource, token: IDisposalToken,
+                    factory: () => any): Promise<any> {
+  let id = source.extension || source.point || source.service;
+  let what = `factory result for '${id}'`;
+  let promise = Promise.resolve().then(factory);
+  return guardLoad(promise, token, registry.timeouts.factory, what, value => {
+    safeDispose(registry, value, source);
+  });
+}
+
+
+/**
+ * Test whether loaded JSON data is an object.
+ */
+function isObject(jsonData: any): boolean {
+  if (!jsonData) {
+    return false;
+  }
+  if (typeof jsonData !== 'object') {
+    return false;
+  }
+  if (jsonData instanceof Array) {
+    return false;
+  }
+  return true;
+}
+
+
+/**
+ * Test whether a non-null object implements `IContrib`.
+ */
+function isContrib(obj: any): boolean {
+  return 'item' in obj;
+}
+
+
+/**
+ * Test whether a non-null object implements `IReceiver`.
+ */
+function isReceiver(obj: any): boolean {
+  return typeof obj.add === 'function' && typeof obj.remove === 'function';
+}
+
+
+/**
+ * Compile the `pattern` keywords of the schemas of a point.
+ *
+ * Returns a map of pattern source to compiled regular expression.
+ *
+ * This will throw an error if a pattern is not a valid regular
+ * expression.
+ */
+function compileSchema(schema: IPointSchema): StringMap<RegExp> {
+  let patterns = createMap<RegExp>();
+  if (schema) {
+    compilePatterns(schema.data, 'data', patterns);
+    compilePatterns(schema.config, 'config', patterns);
+  }
+  return patterns;
+}
+
+
+/**
+ * Compile the `pattern` keywords of a JSON schema into a map.
+ *
+ * The `path` is used to locate an invalid pattern.
+ */
+function compilePatterns(schema: any, path: string, patterns: StringMap<RegExp>): void {
+  // A missing schema has no patterns.
+  if (!isObject(schema)) {
+    return;
+  }
+
+  // Compile the pattern of the schema.
+  if (hasOwn(schema, 'pattern')) {
+    let pattern = schema.pattern;
+    if (typeof pattern !== 'string') {
+      throw new Error(`Schema \`pattern\` for '${path}' must be a string.`);
+    }
+    try {
+      patterns[pattern] = new RegExp(pattern);
+    } catch (err) {
+      throw new Error(`Schema \`pattern\` for '${path}' is not valid: ${err.message}`);
+    }
+  }
+
+  // Compile the patterns of the nested schemas.
+  compilePatterns(schema.items, `${path}[]`, patterns);
+  compilePatterns(schema.additionalProperties, `${path}.*`, patterns);
+  if (isObject(schema.properties)) {
+    for (let key in schema.properties) {
+      if (!hasOwn(schema.properties, key)) continue;
+      compilePatterns(schema.properties[key], `${path}.${key}`, patterns);
+    }
+  }
+}
+
+
+/**
+ * Test whether an object has an own property with the given key.
+ */
+function hasOwn(obj: any, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+
+/**
+ * Validate a JSON value against a JSON schema.
+ *
+ * Returns a description of the first problem found, or `null` if the
+ * value is valid. The `path` is used to locate the problem, and the
+ * `patterns` are the compiled patterns of the schema.
+ */
+function validateJSON(value: any, schema: any, path: string, patterns: StringMap<RegExp>): string {
+  // A missing schema accepts any value.
+  if (!isObject(schema)) {
+    return null;
+  }
+
+  // Check the type of the value.
+  if ('type' in schema) {
+    let types: string[] = schema.type instanceof Array ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return `'${path}' must be of type ${types.join(' or ')}.`;
+    }
+  }
+
+  // Check the allowed values.
+  if (schema.enum instanceof Array) {
+    let json = JSON.stringify(value);
+    if (!schema.enum.some((item: any) => JSON.stringify(item) === json)) {
+      return `'${path}' must be one of ${JSON.stringify(schema.enum)}.`;
+    }
+  }
+
+  // Check the constraints for numbers.
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      return `'${path}' must be >= ${schema.minimum}.`;
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      return `'${path}' must be <= ${schema.maximum}.`;
+    }
+  }
+
+  // Check the constraints for strings.
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      return `'${path}' must have at least ${schema.minLength} characters.`;
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      return `'${path}' must have at most ${schema.maxLength} characters.`;
+    }
+    let pattern = schema.pattern;
+    let re = typeof pattern === 'string' && hasOwn(patterns, pattern) ? patterns[pattern] : null;
+    if (re && !re.test(value)) {
+      return `'${path}' must match the pattern '${pattern}'.`;
+    }
+  }
+
+  // Check the constraints for arrays.
+  if (value instanceof Array) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      return `'${path}' must have at least ${schema.minItems} items.`;
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      return `'${path}' must have at most ${schema.maxItems} items.`;
+    }
+    for (let i = 0; i < value.length; ++i) {
+      let problem = validateJSON(value[i], schema.items, `${path}[${i}]`, patterns);
+      if (problem) return problem;
+    }
+  }
+
+  // Check the constraints for objects.
+  if (isObject(value)) {
+    let properties = isObject(schema.properties) ? schema.properties : {};
+    if (schema.required instanceof Array) {
+      for (let key of schema.required) {
+        if (!hasOwn(value, key)) return `'${path}.${key}' is required.`;
+      }
+    }
+    for (let key in value) {
+      let problem: string;
+      if (hasOwn(properties, key)) {
+        problem = validateJSON(value[key], properties[key], `${path}.${key}`, patterns);
+      } else if (schema.additionalProperties === false) {
+        problem = `'${path}.${key}' is not an allowed property.`;
+      } else {
+        let extra = schema.additionalProperties;
+        problem = validateJSON(value[key], extra, `${path}.${key}`, patterns);
+      }
+      if (problem) return problem;
+    }
+  }
+
+  // The value is valid.
+  return null;
+}
+
+
+/**
+ * Test whether a JSON value matches a JSON schema type name.
+ */
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+  case 'null':
+    return value === null;
+  case 'array':
+    return value instanceof Array;
+  case 'object':
+    return isObject(value);
+  case 'integer':
+    return typeof value === 'number' && value % 1 === 0;
+  default:
+    return typeof value === type;
+  }
+}
+
+
+/**
+ * Test whether a version range is supported by `satisfiesRange`.
+ *
+ * This supports the common subset of the semver range syntax: `*`,
+ * partial versions such as `1.x`, the `^` and `~` operators, the
+ * comparison operators, whitespace separated comparator sets, and
+ * `||` separated alternatives. Hyphen ranges and pre-release tags
+ * are not supported.
+ */
+function isSupportedRange(range: string): boolean {
+  return splitRange(range).every(comps => {
+    return comps.every(comp => !!parseComparator(comp));
+  });
+}
+
+
+/**
+ * Test whether a version satisfies a semver version range.
+ *
+ * The range must be supported by `isSupportedRange`. Pre-release tags
+ * of the version are ignored.
+ *
+ * A `null` version only satisfies a wildcard range.
+ */
+function satisfiesRange(version: string, range: string): boolean {
+  let parsed = version ? parseVersion(version) : null;
+  return splitRange(range).some(comps => {
+    return comps.every(comp => testComparator(parsed, comp));
+  });
+}
+
+
+/**
+ * Split a version range into its sets of comparators.
+ */
+function splitRange(range: string): string[][] {
+  return range.split('||').map(set => {
+    return set.trim().split(/\s+/).filter(comp => !!comp);
+  });
+}
+
+
+/**
+ * Parse a range comparator into an operator and partial version.
+ *
+ * Returns `null` if the comparator is not supported.
+ */
+function parseComparator(comp: string): RegExpMatchArray {
+  let x = '(\\*|x|X|\\d+)';
+  let re = new RegExp(`^(\\^|~|>=|<=|>|<|=)?v?${x}(?:\\.${x})?(?:\\.${x})?$`);
+  return comp.match(re);
+}
+
+
+/**
+ * Parse a version string into a `[major, minor, patch]` array.
+ *
+ * Returns `null` if the version is invalid.
+ */
+function parseVersion(version: string): number[] {
+  let match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? [+match[1], +match[2], +match[3]] : null;
+}
+
+
+/**
+ * Compare two `[major, minor, patch]` version arrays.
+ */
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; ++i) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+
+/**
+ * Test whether a parsed version satisfies a single range comparator.
+ */
+function testComparator(version: number[], comp: string): boolean {
+  // Parse the comparator into an operator and partial version.
+  let match = parseComparator(comp);
+  if (!match) {
+    return false;
+  }
+
+  // Collect the numeric parts which precede any wildcard.
+  let parts: number[] = [];
+  for (let i = 2; i <= 4; ++i) {
+    if (match[i] === void 0 || /^[*xX]$/.test(match[i])) break;
+    parts.push(+match[i]);
+  }
+
+  // A wildcard comparator matches any version, even a missing one.
+  let op = match[1] || '';
+  let n = parts.length;
+  if (n === 0) {
+    return op !== '<' && op !== '>';
+  }
+
+  // Any other comparator requires a valid version.
+  if (!version) {
+    return false;
+  }
+
+  // Compute the lower bound and exclusive upper bound of the partial.
+  let lower = [parts[0] || 0, parts[1] || 0, parts[2] || 0];
+  let upper = lower.slice();
+  if (n > 0) {
+    upper[n - 1]++;
+    for (let i = n; i < 3; ++i) upper[i] = 0;
+  }
+
+  // Test the version against the operator.
+  let lo = compareVersions(version, lower);
+  switch (op) {
+  case '>=':
+    return lo >= 0;
+  case '>':
+    return n === 3 ? lo > 0 : compareVersions(version, upper) >= 0;
+  case '<':
+    return lo < 0;
+  case '<=':
+    return n === 3 ? lo <= 0 : compareVersions(version, upper) < 0;
+  case '~':
+    if (n > 1) upper = [lower[0], lower[1] + 1, 0];
+    return lo >= 0 && compareVersions(version, upper) < 0;
+  case '^':
+    if (lower[0] > 0 || n === 1) {
+      upper = [lower[0] + 1, 0, 0];
+    } else if (lower[1] > 0 || n === 2) {
+      upper = [0, lower[1] + 1, 0];
+    } else {
+      upper = [0, 0, lower[2] + 1];
+    }
+    return lo >= 0 && compareVersions(version, upper) < 0;
+  default:
+    return n === 3 ? lo === 0 : lo >= 0 && compareVersions(version, upper) < 0;
+  }
+}
+
+
+/**
+ * A concrete implementation of `IRegistration`.
+ */
+class Registration extends DisposableDelegate implements IRegistration {
+  /**
+   * Construct a new registration.
+   *
+   * @param ready - The promise which resolves when the registration
+   *   is fully wired.
+   *
+   * @param callback - The function to invoke when the registration
+   *   is disposed. It returns a promise which resolves when the
+   *   registration is fully unloaded.
+   */
+  constructor(ready: Promise<void>, callback: () => Promise<void>) {
+    let done: (value: Promise<void>) => void;
+    let unloaded = new Promise<void>(resolve => { done = resolve; });
+    super(() => {
+      // Settle the unloaded promise even if the callback throws.
+      let promise: Promise<void> = null;
+      try {
+        promise = callback();
+      } finally {
+        done(promise || Promise.resolve<void>());
+      }
+    });
+    this._ready = ready;
+    this._unloaded = unloaded;
+    // Load errors are always logged, so a rejection which is not
+    // observed by the caller should not be reported as unhandled,
+    // including a load which is cancelled after disposal.
+    ready.catch(() => { });
+  }
+
+  /**
+   * A promise which resolves when the registration is fully wired.
+   */
+  get ready(): Promise<void> {
+    return this._ready;
+  }
+
+  /**
+   * A promise which resolves when the registration is fully unloaded.
+   */
+  get unloaded(): Promise<void> {
+    return this._unloaded;
+  }
+
+  private _ready: Promise<void>;
+  private _unloaded: Promise<void>;
+}
+
+
+/**
+ * A concrete implementation of `IDisposalToken`.
+ */
+class DisposalToken implements IDisposalToken {
+  /**
+   * Whether the owner of the token has been disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._callbacks === null;
+  }
+
+  /**
+   * Add a callback to invoke when the owner of the token is disposed.
+   */
+  onDisposed(callback: () => void): IDisposable {
+    if (this._callbacks === null) {
+      callback();
+      return new DisposableDelegate(null);
+    }
+    let callbacks = this._callbacks;
+    callbacks.push(callback);
+    return new DisposableDelegate(() => {
+      let i = callbacks.indexOf(callback);
+      if (i !== -1) callbacks.splice(i, 1);
+    });
+  }
+
+  /**
+   * Dispose of the token and invoke the disposal callbacks.
+   *
+   * #### Notes
+   * Every callback is invoked, even if an earlier callback throws.
+   * The first error thrown by a callback is rethrown afterwards.
+   */
+  dispose(): void {
+    let callbacks = this._callbacks;
+    if (callbacks === null) {
+      return;
+    }
+    this._callbacks = null;
+    let error: any = null;
+    for (let callback of callbacks) {
+      try {
+        callback();
+      } catch (err) {
+        if (error === null) error = err;
+      }
+    }
+    if (error !== null) {
+      throw error;
+    }
+  }
+
+  private _callbacks: (() => void)[] = [];
+}
+
+
+/**
+ * Create a console logger which prefixes messages with an id.
+ */
+function createLogger(id: string): IPluginLogger {
+  let prefix = `[${id}]`;
+  return {
+    log: (...args: any[]) => { console.log(prefix, ...args); },
+    warn: (...args: any[]) => { console.warn(prefix, ...args); },
+    error: (...args: any[]) => { console.error(prefix, ...args); },
+  };
+}
+
+
+/**
+ * Check that an extension point id matches a point token.
+ *
+ * This will throw an error if the ids do not match.
+ */
+function checkPointToken(token: PointToken<any, any, any>, id: string): void {
+  if (token.id !== id) {
+    throw new Error(`Extension point '${id}' does not match token '${token.id}'.`);
+  }
+}
+
+
+//-----------------------------------------------------------------------------
+// Plugin Implementation
+//-----------------------------------------------------------------------------
+
+/**
+ * An object which provides the specification for a plugin.
+ */
+interface IPluginSpec {
+  /**
+   * The name of the plugin.
+   */
+  name: string;
+
+  /**
+   * The version of the plugin package, or `null`.
+   */
+  version: string;
+
+  /**
+   * The namespace of the ids declared by the plugin.
+   */
+  namespace: string;
+
+  /**
+   * The relative path to the plugin main module, or `null`.
+   */
+  main: string;
+
+  /**
+   * A mapping of required plugin name to version range.
+   */
+  requires: StringMap<string>;
+
+  /**
+   * The extension specs for the plugin.
+   */
+  extensions: IExtensionSpec[];
+
+  /**
+   * The extension point specs for the plugin.
+   */
+  extensionPoints: IPointSpec[];
+
+  /**
+   * The specs for the services provided by the plugin.
+   */
+  provides: IServiceSpec[];
+
+  /**
+   * The ids of the services consumed by the plugin.
+   */
+  consumes: string[];
+}
+
+
+/**
+ * A registration record for a plugin.
+ */
+interface IPluginRecord {
+  /**
+   * The life cycle state of the record.
+   */
+  state: RecordState;
+
+  /**
+   * The name of the plugin.
+   */
+  name: string;
+
+  /**
+   * The specification of the plugin, or `null` if not yet loaded.
+   */
+  spec: IPluginSpec;
+
+  /**
+   * The loader promise for the record, or `null` if not loading.
+   *
+   * This resolves when the plugin and its requirements are loaded,
+   * but before the plugin extensions and points are registered.
+   */
+  promise: Promise<void>;
+
+  /**
+   * Whether the plugin was registered automatically as a requirement.
+   */
+  automatic: boolean;
+
+  /**
+   * Whether the extensions and points of the plugin are registered.
+   */
+  enabled: boolean;
+
+  /**
+   * The number of plugins which hold a reference to the plugin.
+   *
+   * This is only used for automatically registered plugins.
+   */
+  refCount: number;
+
+  /**
+   * The names of the automatic plugins referenced by the plugin.
+   */
+  references: string[];
+
+  /**
+   * The main module of an activated plugin, or `null`.
+   */
+  main: IPluginMain;
+
+  /**
+   * The disposal token for the record, or `null` if never loaded.
+   */
+  token: DisposalToken;
+
+  /**
+   * The last error reported for the record, or `null`.
+   */
+  error: IPluginError;
+
+  /**
+   * The time at which the record started loading, or `null`.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the record finished loading, or `null`.
+   */
+  loadFinished: number;
+}
+
+
+/**
+ * Add a new plugin record to the registry and load the plugin.
+ *
+ * The caller must ensure the plugin name is not registered.
+ *
+ * The returned promise resolves once the plugin is fully wired.
+ */
+function addPlugin(registry: IRegistryData, name: string): Promise<void> {
+  // Create a new unloaded record for the plugin.
+  let record: IPluginRecord = {
+    state: RecordState.Unloaded,
+    name: name,
+    spec: null,
+    promise: null,
+    automatic: false,
+    enabled: registry.store.getEnabled(RecordType.Plugin, name) !== false,
+    refCount: 0,
+    references: [],
+    main: null,
+    token: null,
+    error: null,
+    loadStarted: null,
+    loadFinished: null,
+  };
+
+  // Add the record to the plugin registry.
+  registry.plugins[name] = record;
+  notifyChanged(registry, RecordType.Plugin, name, name, record.state, record.enabled);
+
+  // Load the plugin record.
+  return loadPlugin(registry, record);
+}
+
+
+/**
+ * Ensure a plugin record is fully loaded.
+ *
+ * The returned promise resolves once the plugin spec is loaded and
+ * the extensions and points of the plugin have finished loading.
+ */
+function loadPlugin(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  // If the record is not unloaded, there is nothing to do.
+  if (record.state !== RecordState.Unloaded) {
+    return Promise.resolve<void>();
+  }
+
+  // Set the record state to loading.
+  setPluginState(registry, record, RecordState.Loading);
+
+  // Setup the current loading phase.
+  let phase = ErrorPhase.FetchManifest;
+
+  // Setup the array of service registration promises.
+  let services: Promise<void>[] = [];
+
+  // Create the disposal token for the loading plugin.
+  let token = record.token = new DisposalToken();
+
+  // Kick off the promise loading chain.
+  let promise = Promise.resolve().then(() => {
+
+    // Load the plugin package JSON.
+    let what = `manifest for plugin '${record.name}'`;
+    let timeout = registry.timeouts.manifest;
+    return fetchResource(registry, token, timeout, what, () => {
+      return registry.loader.loadManifest(record.name, token);
+    });
+
+  }).then(pkg => {
+
+    // Do nothing if the record has been disposed.
+    if (record.state === RecordState.Disposed) {
+      return;
+    }
+
+    // Update the loading phase.
+    phase = ErrorPhase.ValidateSpec;
+
+    // Assert the package JSON data is an object.
+    if (!isObject(pkg)) {
+      throw new Error('`package.json` must be an object.');
+    }
+
+    // Assert the plugin JSON data exists.
+    if (!('phosphor-plugin' in pkg)) {
+      throw new Error('`phosphor-plugin` is not specified.');
+    }
+
+    // Create the plugin spec from the plugin JSON data.
+    record.spec = createPluginSpec(record.name, pkg);
+
+    // Apply the namespacing rules and claim the plugin namespace.
+    applyNamespace(registry, record.spec);
+    claimNamespace(registry, record.spec);
+
+    // Update the loading phase.
+    phase = ErrorPhase.ResolveDependencies;
+
+    // Wait for the required plugins to finish loading.
+    return resolveDependencies(registry, record);
+
+  }).then(() => {
+
+    // Do nothing if the record has been disposed.
+    if (record.state === RecordState.Disposed) {
+      return;
+    }
+
+    // Register the provided services, so they are available to the
+    // plugin itself and to the plugins which require the plugin.
+    for (let service of record.spec.provides) {
+      services.push(registerServiceSpec(registry, service));
+    }
+
+    // Wait for the consumed services to finish loading.
+    return resolveConsumes(registry, record);
+
+  }).then(() => {
+
+    // Do nothing if the record has been disposed.
+    if (record.state === RecordState.Disposed) {
+      return null;
+    }
+
+    // Update the loading phase.
+    phase = ErrorPhase.ImportMain;
+
+    // Load the main module of the plugin, if given.
+    let main = record.spec.main;
+    return main ? importMain(registry, record.name, main, token) : null;
+
+  }).then(main => {
+
+    // Do nothing if the record has been disposed or has no main.
+    if (record.state === RecordState.Disposed || !main) {
+      return;
+    }
+
+    // Update the loading phase.
+    phase = ErrorPhase.ActivatePlugin;
+
+    // Activate the plugin before its contents are registered.
+    return activatePlugin(registry, record, main);
+
+  }).then(() => {
+
+    // Do nothing if the record has been disposed.
+    if (record.state === RecordState.Disposed) {
+      return;
+    }
+
+    // Clear the loader promise and mark the plugin as loaded.
+    record.promise = null;
+    setPluginState(registry, record, RecordState.Loaded);
+
+  }).catch(err => {
+
+    // Clear the loader promise.
+    record.promise = null;
+
+    // A load which was cancelled by a disposal is not an error.
+    if (isCancelError(err)) {
+      return;
+    }
+
+    // If an error occurs while loading, report it to the handler.
+    let source = pluginSource(record.name);
+    let message = `Error occured while loading plugin '${record.name}'.`;
+    record.error = reportError(registry, phase, source, message, err);
+
+    // Unregister the plugin and mark it as failed. A record which
+    // was disposed while loading has already been unregistered.
+    if (record.state !== RecordState.Disposed) {
+      delete registry.plugins[record.name];
+      setPluginState(registry, record, RecordState.Failed);
+      safeDispose(registry, token, source);
+      disposePluginServices(registry, record);
+      releaseReferences(registry, record);
+      releaseNamespace(registry, record);
+    }
+
+    // Propagate the error to the caller.
+    throw err;
+
+  });
+
+  // Update the record loader promise.
+  record.promise = promise;
+
+  // Register the plugin contents once the plugin is loaded.
+  return promise.then(() => {
+
+    // Do nothing if the record was disposed while loading.
+    if (record.state !== RecordState.Loaded) {
+      return;
+    }
+
+    // Register the extensions and points of an enabled plugin.
+    let promises = services.slice();
+    if (record.enabled) {
+      promises.push(registerPluginContents(registry, record));
+    }
+
+    // Wait for the services, extensions and points to finish loading.
+    return settleAll(promises);
+
+  });
+}
+
+
+/**
+ * Register the extensions and points of a loaded plugin record.
+ *
+ * The returned promise resolves once the records are loaded.
+ */
+function registerPluginContents(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  // Setup the array of registration promises.
+  let promises: Promise<void>[] = [];
+
+  // Register the plugin extension points.
+  for (let point of record.spec.extensionPoints) {
+    promises.push(registerPointSpec(registry, point));
+  }
+
+  // Register the plugin extensions.
+  for (let ext of record.spec.extensions) {
+    promises.push(registerExtensionSpec(registry, ext));
+  }
+
+  // Wait for the extensions and points to finish loading.
+  return settleAll(promises);
+}
+
+
+/**
+ * Dispose of the extensions and points of a plugin record.
+ *
+ * Records with the same id which belong to another registrant are
+ * left untouched.
+ *
+ * The contents are torn down in dependency order. The extensions of
+ * the plugin are first removed from the points of other registrants,
+ * and the extensions of other registrants are then removed from the
+ * points of the plugin. The points of the plugin and their receivers
+ * are disposed next, followed by the extensions of the plugin. The
+ * vacated slots of the foreign points are filled last.
+ *
+ * The returned promise resolves once the records are disposed.
+ */
+function disposePluginContents(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  let name = record.name;
+
+  // Collect the extension and point records owned by the plugin.
+  let exts: IExtensionRecord[] = [];
+  let points: IPointRecord[] = [];
+  for (let ext of record.spec.extensions) {
+    let other = registry.extensions[ext.id];
+    if (other && other.spec.plugin === name) exts.push(other);
+  }
+  for (let point of record.spec.extensionPoints) {
+    let other = registry.points[point.id];
+    if (other && other.spec.plugin === name) points.push(other);
+  }
+
+  // Remove the plugin extensions from the foreign points.
+  let foreign: IPointRecord[] = [];
+  for (let eRecord of exts) {
+    let id = eRecord.spec.id;
+    for (let pRecord of matchingPoints(registry, eRecord.spec)) {
+      if (points.indexOf(pRecord) !== -1) continue;
+      if (foreign.indexOf(pRecord) === -1) foreign.push(pRecord);
+      removeReserved(pRecord, id);
+      removeDelivered(registry, pRecord, id);
+    }
+  }
+
+  // Remove the foreign extensions from the plugin points, in the
+  // reverse order of addition.
+  for (let pRecord of points) {
+    for (let id of pRecord.delivered.slice().reverse()) {
+      if (!exts.some(eRecord => eRecord.spec.id === id)) {
+        removeDelivered(registry, pRecord, id);
+      }
+    }
+  }
+
+  // Dispose the plugin points and their receivers.
+  let promises: Promise<void>[] = [];
+  for (let pRecord of points) {
+    promises.push(disposePoint(registry, pRecord.spec.id));
+  }
+
+  // Dispose the plugin extensions.
+  for (let eRecord of exts) {
+    promises.push(disposeExtension(registry, eRecord.spec.id, false));
+  }
+
+  // Fill the slots vacated at the foreign points.
+  for (let pRecord of foreign) {
+    addMatches(registry, pRecord);
+  }
+
+  // Wait for the records to finish their disposal.
+  return settleAll(promises);
+}
+
+
+/**
+ * Apply a new enabled state to a plugin record.
+ *
+ * A disabled plugin stays registered, and its extensions and points
+ * are unloaded. The returned promise resolves once the extensions and
+ * points of an enabled plugin are loaded, or once the contents of a
+ * disabled plugin have finished their disposal.
+ */
+function enablePlugin(registry: IRegistryData, record: IPluginRecord, enabled: boolean): Promise<void> {
+  // Do nothing if the state is unchanged.
+  if (record.enabled === enabled) {
+    return Promise.resolve<void>();
+  }
+
+  // Update the record and notify the change listeners. A loading
+  // plugin will use the new state.
+  record.enabled = enabled;
+  setPluginState(registry, record, record.state);
+  if (record.state !== RecordState.Loaded) {
+    return Promise.resolve<void>();
+  }
+
+  // Register or dispose the plugin contents.
+  if (enabled) {
+    return registerPluginContents(registry, record);
+  }
+  return disposePluginContents(registry, record);
+}
+
+
+/**
+ * Dispose of the plugin with the specified name.
+ *
+ * The returned promise resolves once a pending load has settled and
+ * the records of the plugin have finished their disposal, including
+ * the automatic plugins which it released. It never rejects.
+ */
+function disposePlugin(registry: IRegistryData, name: string): Promise<void> {
+  // Do nothing if the name is not registered.
+  if (!(name in registry.plugins)) {
+    return Promise.resolve<void>();
+  }
+
+  // Delete the registration record.
+  let record = registry.plugins[name];
+  delete registry.plugins[name];
+
+  // Cancel the pending loads of the plugin.
+  safeDispose(registry, record.token, pluginSource(name));
+
+  // Mark the plugin as disposed. A loading record will be handled
+  // by the loader on completion.
+  let loaded = record.state === RecordState.Loaded;
+  setPluginState(registry, record, RecordState.Disposed);
+
+  // Release the namespace claimed by the plugin.
+  releaseNamespace(registry, record);
+
+  // Dispose the extensions and points of a loaded plugin, or wait
+  // for the pending load of a loading plugin to settle.
+  let promise = loaded ? disposePluginContents(registry, record) : whenSettled(record);
+
+  // Deactivate the plugin, dispose its services, and then release
+  // the automatic plugins which it requires, in that order.
+  return promise.then(() => {
+    return deactivatePlugin(registry, record);
+  }).then(() => {
+    return disposePluginServices(registry, record);
+  }).then(() => {
+    return releaseReferences(registry, record);
+  });
+}
+
+
+/**
+ * Run the activation hook of the main module of a plugin record.
+ *
+ * The returned promise rejects if the main module is invalid, or if
+ * the activation fails or is vetoed. A plugin which finishes its
+ * activation after the load was cancelled is deactivated.
+ */
+function activatePlugin(registry: IRegistryData, record: IPluginRecord, main: IPluginMain): Promise<void> {
+  // Throw an error if the lifecycle hooks are invalid.
+  let name = record.name;
+  if (!isObject(main)) {
+    throw new Error(`Plugin '${name}' has invalid main module.`);
+  }
+  if ('activate' in main && typeof main.activate !== 'function') {
+    throw new Error(`Plugin '${name}' has invalid activate function.`);
+  }
+  if ('deactivate' in main && typeof main.deactivate !== 'function') {
+    throw new Error(`Plugin '${name}' has invalid deactivate function.`);
+  }
+
+  // Run the activation hook, if given.
+  let context = createPluginContext(registry, record);
+  let promise = Promise.resolve().then(() => {
+    return main.activate ? main.activate(context) : null;
+  });
+
+  // Wait for the activation, deactivating a late plugin.
+  let what = `activation of plugin '${name}'`;
+  let timeout = registry.timeouts.factory;
+  return guardLoad(promise, record.token, timeout, what, result => {
+    if (result === false) return;
+    record.main = main;
+    deactivatePlugin(registry, record);
+  }).then(result => {
+    if (result === false) {
+      throw new Error(`Plugin '${name}' vetoed its activation.`);
+    }
+    record.main = main;
+  });
+}
+
+
+/**
+ * Run the deactivation hook of an activated plugin record.
+ *
+ * This is a no-op if the plugin was not activated. Errors thrown by
+ * the hook are reported, but are not propagated.
+ *
+ * The returned promise resolves once the deactivation is complete.
+ */
+function deactivatePlugin(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  // Do nothing if the plugin was not activated.
+  let main = record.main;
+  if (!main) {
+    return Promise.resolve<void>();
+  }
+
+  // Clear the main module so the hook is only run once.
+  record.main = null;
+
+  // Run the deactivation hook and report any error.
+  let context = createPluginContext(registry, record);
+  let promise: Promise<void>;
+  try {
+    promise = Promise.resolve(main.deactivate ? main.deactivate(context) : null);
+  } catch (err) {
+    promise = Promise.reject(err);
+  }
+  return promise.catch(err => {
+    let source = pluginSource(record.name);
+    let message = `Error occured while deactivating plugin '${record.name}'.`;
+    reportError(registry, ErrorPhase.Dispose, source, message, err);
+  });
+}
+
+
+/**
+ * Create the context for the lifecycle hooks of a plugin record.
+ */
+function createPluginContext(registry: IRegistryData, record: IPluginRecord): IPluginContext {
+  return {
+    id: record.name,
+    plugin: record.name,
+    logger: createLogger(record.name),
+    token: record.token,
+    registry: registry.owner,
+    version: record.spec.version,
+    namespace: record.spec.namespace,
+  };
+}
+
+
+/**
+ * Reload the spec of a loaded plugin record.
+ *
+ * Only the records whose spec changed, or whose main module or data
+ * file is in the `changed` paths, are unloaded and recreated.
+ *
+ * The returned promise resolves once the new records are wired and
+ * the removed records have finished their disposal.
+ */
+function reloadPluginRecord(registry: IRegistryData, record: IPluginRecord, changed: string[]): Promise<void> {
+  // Setup the current loading phase.
+  let name = record.name;
+  let phase = ErrorPhase.FetchManifest;
+
+  // Discard the cached modules of the plugin.
+  if (registry.loader.invalidate) {
+    registry.loader.invalidate(name);
+  }
+
+  // Kick off the promise loading chain.
+  return Promise.resolve().then(() => {
+
+    // Load the new plugin package JSON.
+    let what = `manifest for plugin '${name}'`;
+    let timeout = registry.timeouts.manifest;
+    return fetchResource(registry, record.token, timeout, what, () => {
+      return registry.loader.loadManifest(name, record.token);
+    });
+
+  }).then(pkg => {
+
+    // Update the loading phase.
+    phase = ErrorPhase.ValidateSpec;
+
+    // Assert the package JSON data is valid.
+    if (!isObject(pkg)) {
+      throw new Error('`package.json` must be an object.');
+    }
+    if (!('phosphor-plugin' in pkg)) {
+      throw new Error('`phosphor-plugin` is not specified.');
+    }
+
+    // Create the new plugin spec and apply the namespacing rules.
+    let spec = createPluginSpec(name, pkg);
+    applyNamespace(registry, spec);
+
+    // Assert the plugin namespace is unchanged.
+    if (spec.namespace !== record.spec.namespace) {
+      throw new Error(`Plugin '${name}' namespace has changed.`);
+    }
+
+    // Assert the plugin main module is unchanged. The lifecycle hooks
+    // of a plugin are not rerun by a reload.
+    if (spec.main !== record.spec.main || isChangedSpec(spec, changed)) {
+      let msg = `Plugin '${name}' main module has changed, so it cannot be ` +
+                `reloaded. Dispose and register the plugin again instead.`;
+      throw new Error(msg);
+    }
+
+    // Update the loading phase.
+    phase = ErrorPhase.ResolveDependencies;
+
+    // Assert the plugin requirements are unchanged.
+    if (!isSameSpec(spec.requires, record.spec.requires)) {
+      throw new Error(`Plugin '${name}' requirements have changed.`);
+    }
+
+    return spec;
+
+  }).catch((err): IPluginSpec => {
+
+    // If an error occurs while reloading, report it to the handler.
+    let source = pluginSource(name);
+    let message = `Error occured while reloading plugin '${name}'.`;
+    record.error = reportError(registry, phase, source, message, err);
+
+    // Propagate the error to the caller.
+    throw err;
+
+  }).then(spec => {
+
+    // Do nothing if the record was disposed while reloading.
+    if (record.state !== RecordState.Loaded) {
+      return;
+    }
+
+    // Swap in the new spec and compute the changed records.
+    let old = record.spec;
+    record.spec = spec;
+    let exts = diffSpecs(old.extensions, spec.extensions, changed);
+    let points = diffSpecs(old.extensionPoints, spec.extensionPoints, changed);
+    let services = diffSpecs(old.provides, spec.provides, changed);
+
+    // Collect the removed records which were explicitly activated.
+    let activeExts: string[] = [];
+    let activePoints: string[] = [];
+    for (let ext of exts.removed) {
+      let other = registry.extensions[ext.id];
+      if (other && other.spec === ext && other.active) activeExts.push(ext.id);
+    }
+    for (let point of points.removed) {
+      let other = registry.points[point.id];
+      if (other && other.spec === point && other.active) activePoints.push(point.id);
+    }
+
+    // Unload the removed records, extensions first.
+    let promises: Promise<void>[] = [];
+    for (let ext of exts.removed) {
+      let other = registry.extensions[ext.id];
+      if (other && other.spec === ext) promises.push(disposeExtension(registry, ext.id));
+    }
+    for (let point of points.removed) {
+      let other = registry.points[point.id];
+      if (other && other.spec === point) promises.push(disposePoint(registry, point.id));
+    }
+    for (let service of services.removed) {
+      let other = registry.services[service.id];
+      if (other && other.spec === service) promises.push(disposeService(registry, service.id));
+    }
+
+    // Register the added services.
+    for (let service of services.added) {
+      promises.push(registerServiceSpec(registry, service));
+    }
+
+    // Register the added points and extensions, preserving the
+    // activation of the records they replace. The contents of a
+    // disabled plugin are registered once it is enabled.
+    if (!record.enabled) {
+      points.added = [];
+      exts.added = [];
+    }
+    for (let point of points.added) {
+      promises.push(registerPointSpec(registry, point));
+      let other = registry.points[point.id];
+      if (activePoints.indexOf(point.id) !== -1 && other && !other.active) {
+        promises.push(activatePointRecord(registry, other));
+      }
+    }
+    for (let ext of exts.added) {
+      promises.push(registerExtensionSpec(registry, ext));
+      let other = registry.extensions[ext.id];
+      if (activeExts.indexOf(ext.id) !== -1 && other && !other.active) {
+        other.active = true;
+        promises.push(loadMatchingPoint(registry, other));
+      }
+    }
+
+    // Resolve the consumed services of the new spec.
+    promises.push(resolveConsumes(registry, record));
+
+    // Wait for the disposals and the new records to finish loading.
+    return settleAll(promises);
+
+  });
+}
+
+
+/**
+ * The result of comparing two arrays of specs.
+ */
+interface ISpecDiff<T> {
+  /**
+   * The old specs which were removed or changed.
+   */
+  removed: T[];
+
+  /**
+   * The new specs which were added or changed.
+   */
+  added: T[];
+}
+
+
+/**
+ * Compare two arrays of specs by id.
+ *
+ * A spec which differs from its old version, or whose `main` or `data`
+ * path is in the `changed` paths, is both removed and added.
+ */
+function diffSpecs<T extends { id: string }>(oldSpecs: T[], newSpecs: T[], changed: string[]): ISpecDiff<T> {
+  let removed: T[] = [];
+  let added: T[] = [];
+  let byId = createMap<T>();
+  for (let spec of newSpecs) {
+    byId[spec.id] = spec;
+  }
+  let kept = createMap<boolean>();
+  for (let spec of oldSpecs) {
+    let other = byId[spec.id];
+    if (other && isSameSpec(spec, other) && !isChangedSpec(other, changed)) {
+      kept[spec.id] = true;
+    } else {
+      removed.push(spec);
+    }
+  }
+  for (let spec of newSpecs) {
+    if (!kept[spec.id]) added.push(spec);
+  }
+  return { removed, added };
+}
+
+
+/**
+ * Test whether two specs have the same JSON content.
+ */
+function isSameSpec(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+
+/**
+ * Test whether the main module or data file of a spec has changed.
+ */
+function isChangedSpec(spec: any, changed: string[]): boolean {
+  let main = spec.main && changed.indexOf(spec.main) !== -1;
+  let data = spec.data && changed.indexOf(spec.data) !== -1;
+  return !!(main || data);
+}
+
+
+/**
+ * Wait for the plugins required by a plugin record to finish loading.
+ *
+ * Required plugins which are not registered will be registered if the
+ * registry is configured to do so. The returned promise rejects if a
+ * requirement is missing, has an incompatible version, fails to load,
+ * or forms a dependency cycle.
+ */
+function resolveDependencies(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  let spec = record.spec;
+
+  // Throw an error if the requirements form a cycle.
+  let cycle = findDependencyCycle(registry, spec.name);
+  if (cycle) {
+    let path = cycle.join(' -> ');
+    throw new Error(`Plugin '${spec.name}' has a circular dependency: ${path}.`);
+  }
+
+  // Wait for each of the required plugins.
+  let promises = Object.keys(spec.requires).map(name => {
+    let range = spec.requires[name];
+
+    // Register the required plugin automatically, if allowed.
+    if (!(name in registry.plugins) && registry.registerDependencies) {
+      // Errors are reported by the loader of the required plugin.
+      addPlugin(registry, name).catch(() => { });
+      registry.plugins[name].automatic = true;
+    }
+
+    // Reject if the required plugin is not registered.
+    let other = registry.plugins[name];
+    if (!other) {
+      let msg = `Plugin '${spec.name}' requires '${name}', which is not registered.`;
+      return Promise.reject(new Error(msg));
+    }
+
+    // Hold a reference to an automatically registered plugin.
+    if (other.automatic) {
+      other.refCount++;
+      record.references.push(name);
+    }
+
+    // Wait for the required plugin and validate its version.
+    let promise = other.promise || Promise.resolve<void>();
+    return promise.then(() => {
+      if (other.state !== RecordState.Loaded) {
+        throw new Error(`Required plugin '${name}' was disposed.`);
+      }
+      if (!satisfiesRange(other.spec.version, range)) {
+        let version = other.spec.version;
+        let msg = `Plugin '${spec.name}' requires '${name}@${range}', ` +
+                  `but version '${version}' is registered.`;
+        throw new Error(msg);
+      }
+    }, err => {
+      let msg = `Required plugin '${name}' failed to load: ${err.message}`;
+      throw new Error(msg);
+    });
+  });
+
+  // Wait for all of the requirements to be resolved.
+  return Promise.all(promises).then(() => { });
+}
+
+
+/**
+ * Find a dependency cycle which includes the named plugin.
+ *
+ * Only plugins which have loaded their specification are considered.
+ *
+ * Returns the names of the plugins which form the cycle, starting and
+ * ending with the given name, or `null` if there is no cycle.
+ */
+function findDependencyCycle(registry: IRegistryData, name: string): string[] {
+  let visited = createMap<boolean>();
+  let path = [name];
+  return visit(name);
+
+  // Search the requirements of the named plugin for the target.
+  function visit(current: string): string[] {
+    let other = registry.plugins[current];
+    if (!other || !other.spec) {
+      return null;
+    }
+    for (let next in other.spec.requires) {
+      if (next === name) {
+        return path.concat(next);
+      }
+      if (visited[next]) {
+        continue;
+      }
+      visited[next] = true;
+      path.push(next);
+      let result = visit(next);
+      if (result) {
+        return result;
+      }
+      path.pop();
+    }
+    return null;
+  }
+}
+
+
+/**
+ * Release the references held by a plugin record.
+ *
+ * An automatically registered plugin is disposed when the last
+ * plugin which holds a reference to it is disposed.
+ *
+ * The returned promise resolves once the released plugins are
+ * disposed.
+ */
+function releaseReferences(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  let names = record.references;
+  let promises: Promise<void>[] = [];
+  record.references = [];
+  for (let name of names) {
+    let other = registry.plugins[name];
+    if (other && other.automatic && --other.refCount === 0) {
+      promises.push(disposePlugin(registry, name));
+    }
+  }
+  return settleAll(promises);
+}
+
+
+/**
+ * Validate a namespacing rule.
+ *
+ * This will throw an error if the rule is invalid.
+ */
+function createNamespacing(value: string): string {
+  if (value !== 'none' && value !== 'validate' && value !== 'prefix') {
+    throw new Error(`Namespacing '${value}' is not valid.`);
+  }
+  return value;
+}
+
+
+/**
+ * Test whether a value is a valid plugin namespace.
+ */
+function isNamespace(value: any): boolean {
+  return typeof value === 'string' && !!value && value.indexOf(':') === -1;
+}
+
+
+/**
+ * Apply the namespacing rules of the registry to a plugin spec.
+ *
+ * Under the `'prefix'` rule, the unprefixed ids declared by the plugin
+ * are prefixed with its namespace, as are the unprefixed references to
+ * points, extensions, and services. Wildcard references are left as-is.
+ *
+ * This will throw an error if the plugin declares an id which it does
+ * not own, or if its namespace is reserved or owned by another plugin.
+ */
+function applyNamespace(registry: IRegistryData, spec: IPluginSpec): void {
+  // Do nothing if namespacing is disabled.
+  let mode = registry.namespacing;
+  if (mode === 'none') {
+    return;
+  }
+
+  // Assert the namespace is available to the plugin.
+  let ns = spec.namespace;
+  if (registry.reservedNamespaces.indexOf(ns) !== -1) {
+    throw new Error(`Namespace '${ns}' is reserved.`);
+  }
+  let owner = registry.namespaces[ns];
+  if (owner && owner !== spec.name) {
+    throw new Error(`Namespace '${ns}' is owned by plugin '${owner}'.`);
+  }
+
+  // Setup the function which prefixes an unprefixed reference.
+  let resolve = (id: string): string => {
+    if (id.indexOf('*') !== -1) {
+      return id;
+    }
+    if (mode === 'prefix' && id.indexOf(':') === -1) {
+      return `${ns}:${id}`;
+    }
+    return id;
+  };
+
+  // Setup the function which prefixes and validates an owned id.
+  let qualify = (id: string): string => {
+    id = resolve(id);
+    if (id.indexOf(`${ns}:`) !== 0) {
+      throw new Error(`Plugin '${spec.name}' does not own the id '${id}'.`);
+    }
+    return id;
+  };
+
+  // Update the ids and references of the plugin records.
+  for (let ext of spec.extensions) {
+    ext.id = qualify(ext.id);
+    ext.targets = ext.targets.map(resolve);
+    ext.point = ext.targets[0];
+    if (ext.before) ext.before = ext.before.map(resolve);
+    if (ext.after) ext.after = ext.after.map(resolve);
+  }
+  for (let point of spec.extensionPoints) {
+    point.id = qualify(point.id);
+  }
+  for (let service of spec.provides) {
+    service.id = qualify(service.id);
+  }
+  spec.consumes = spec.consumes.map(resolve);
+}
+
+
+/**
+ * Claim the namespace of a plugin spec for the plugin.
+ *
+ * This is a no-op if namespacing is disabled.
+ */
+function claimNamespace(registry: IRegistryData, spec: IPluginSpec): void {
+  if (registry.namespacing !== 'none') {
+    registry.namespaces[spec.namespace] = spec.name;
+  }
+}
+
+
+/**
+ * Release the namespace claimed by a plugin record.
+ *
+ * A namespace which is owned by another plugin is left untouched.
+ */
+function releaseNamespace(registry: IRegistryData, record: IPluginRecord): void {
+  let ns = record.spec ? record.spec.namespace : null;
+  if (ns && registry.namespaces[ns] === record.name) {
+    delete registry.namespaces[ns];
+  }
+}
+
+
+/**
+ * Set the state of a plugin record and notify the change listeners.
+ */
+function setPluginState(registry: IRegistryData, record: IPluginRecord, state: RecordState): void {
+  record.state = state;
+  updateLoadTimes(record, state);
+  notifyChanged(registry, RecordType.Plugin, record.name, record.name, state, record.enabled);
+}
+
+
+/**
+ * Create an error source for the plugin with the given name.
+ */
+function pluginSource(name: string): IErrorSource {
+  return { plugin: name, extension: null, point: null, service: null };
+}
+
+
+/**
+ * Create a new info object for a plugin record.
+ *
+ * The spec fields of the info are empty until the spec is loaded.
+ */
+function createPluginInfo(record: IPluginRecord): IPluginInfo {
+  let spec = record.spec;
+  return {
+    name: record.name,
+    state: record.state,
+    version: spec ? spec.version : null,
+    automatic: record.automatic,
+    namespace: spec ? spec.namespace : null,
+    main: spec ? spec.main : null,
+    activated: record.main !== null,
+    enabled: record.enabled,
+    requires: spec ? Object.keys(spec.requires) : [],
+    extensions: spec ? spec.extensions.map(ext => ext.id) : [],
+    extensionPoints: spec ? spec.extensionPoints.map(point => point.id) : [],
+    provides: spec ? spec.provides.map(service => service.id) : [],
+    consumes: spec ? spec.consumes.slice() : [],
+    error: record.error,
+    loadStarted: record.loadStarted,
+    loadFinished: record.loadFinished,
+  };
+}
+
+
+/**
+ * Create a plugin spec from package JSON data.
+ *
+ * This will throw error if any part of the data is invalid.
+ */
+function createPluginSpec(name: string, pkg: any): IPluginSpec {
+  // Extract the plugin JSON data.
+  let plugin = pkg['phosphor-plugin'];
+
+  // Assert the plugin is an object.
+  if (!isObject(plugin)) {
+    throw new Error('Plugin must be an object.');
+  }
+
+  // Assert the package version is a string, if given.
+  if ('version' in pkg && typeof pkg.version !== 'string') {
+    throw new Error('Package `version` must be a string.');
+  }
+
+  // Extract the package version.
+  let version: string = pkg.version || null;
+
+  // Assert the plugin namespace is valid, if given.
+  if ('namespace' in plugin && !isNamespace(plugin.namespace)) {
+    throw new Error('Plugin `namespace` must be a string without a `:`.');
+  }
+
+  // Extract the plugin namespace.
+  let namespace: string = plugin.namespace || name;
+
+  // Assert the plugin main module is a string, if given.
+  if ('main' in plugin && typeof plugin.main !== 'string') {
+    throw new Error('Plugin `main` must be a string.');
+  }
+
+  // Extract the plugin main module.
+  let main: string = plugin.main || null;
+
+  // Create the requirements for the plugin.
+  let requires = createRequirements();
+
+  // Create the extension specs for the plugin.
+  let extensions = createExtensionSpecs();
+
+  // Create the point specs for the plugin.
+  let extensionPoints = createPointSpecs();
+
+  // Create the service specs for the plugin.
+  let provides = createServiceSpecs();
+
+  // Create the consumed service ids for the plugin.
+  let consumes = createConsumes();
+
+  // Return the new plugin spec.
+  return {
+    name, version, namespace, main, requires, extensions, extensionPoints,
+    provides, consumes
+  };
+
+  // Create the mapping of required plugin name to version range.
+  function createRequirements(): StringMap<string> {
+    let result = createMap<string>();
+
+    if (!('requires' in plugin)) {
+      return result;
+    }
+
+    let reqs = plugin.requires;
+
+    if (reqs instanceof Array) {
+      for (let req of reqs) {
+        if (typeof req !== 'string') {
+          throw new Error('`requires` names must be strings.');
+        }
+        result[req] = '*';
+      }
+      return result;
+    }
+
+    if (!isObject(reqs)) {
+      throw new Error('`requires` must be an array or an object.');
+    }
+
+    for (let key in reqs) {
+      if (typeof reqs[key] !== 'string') {
+        throw new Error('`requires` version ranges must be strings.');
+      }
+      if (!isSupportedRange(reqs[key])) {
+        let msg = `\`requires\` version range '${reqs[key]}' for '${key}' is not supported.`;
+        throw new Error(msg);
+      }
+      result[key] = reqs[key];
+    }
+
+    return result;
+  }
+
+  // Create the array of extension specs.
+  function createExtensionSpecs(): IExtensionSpec[] {
+    if (!('extensions' in plugin)) {
+      return [];
+    }
+
+    if (!(plugin.extensions instanceof Array)) {
+      throw new Error('`extensions` must be an array.');
+    }
+
+    return plugin.extensions.map(createExtensionSpec);
+  }
+
+  // Create the array of extension point specs.
+  function createPointSpecs(): IPointSpec[] {
+    if (!('extensionPoints' in plugin)) {
+      return [];
+    }
+
+    if (!(plugin.extensionPoints instanceof Array)) {
+      throw new Error('`extensionPoints` must be an array.');
+    }
+
+    return plugin.extensionPoints.map(createPointSpec);
+  }
+
+  // Create the array of provided service specs.
+  function createServiceSpecs(): IServiceSpec[] {
+    if (!('provides' in plugin)) {
+      return [];
+    }
+
+    if (!(plugin.provides instanceof Array)) {
+      throw new Error('`provides` must be an array.');
+    }
+
+    return plugin.provides.map(createServiceSpec);
+  }
+
+  // Create the array of consumed service ids.
+  function createConsumes(): string[] {
+    if (!('consumes' in plugin)) {
+      return [];
+    }
+
+    if (!(plugin.consumes instanceof Array)) {
+      throw new Error('`consumes` must be an array.');
+    }
+
+    for (let id of plugin.consumes) {
+      if (typeof id !== 'string') {
+        throw new Error('`consumes` ids must be strings.');
+      }
+    }
+
+    return plugin.consumes.slice();
+  }
+
+  // Create an extension spec from extension JSON data.
+  function createExtensionSpec(ext: any): IExtensionSpec {
+    if (!isObject(ext)) {
+      throw new Error('Extension must be an object.');
+    }
+
+    if (typeof ext.id !== 'string') {
+      throw new Error('Extension `id` must be a string.');
+    }
+
+    let targets = createIdList(ext.point, 'point');
+    if (targets.length === 0) {
+      throw new Error('Extension `point` must not be empty.');
+    }
+
+    let spec: IExtensionSpec = {
+      id: ext.id,
+      point: targets[0],
+      targets: targets,
+      plugin: name,
+    };
+
+    if ('main' in ext) {
+      if (typeof ext.main !== 'string') {
+        throw new Error('Extension `main` must be a string.');
+      }
+      spec.main = ext.main;
+    }
+
+    if ('factory' in ext) {
+      if (typeof ext.factory !== 'string') {
+        throw new Error('Extension `factory` must be a string.');
+      }
+      spec.factory = ext.factory;
+    }
+
+    if ('data' in ext) {
+      if (typeof ext.data !== 'string') {
+        throw new Error('Extension `data` must be a string.');
+      }
+      spec.data = ext.data;
+    }
+
+    if ('config' in ext) {
+      if (!isObject(ext.config)) {
+        throw new Error('Extension `config` must be an object.');
+      }
+      spec.config = ext.config;
+    }
+
+    if ('activation' in ext) {
+      if (!isActivationPolicy(ext.activation)) {
+        throw new Error('Extension `activation` is not a valid policy.');
+      }
+      spec.activation = ext.activation;
+    }
+
+    if ('rank' in ext) {
+      if (typeof ext.rank !== 'number') {
+        throw new Error('Extension `rank` must be a number.');
+      }
+      spec.rank = ext.rank;
+    }
+
+    if ('before' in ext) {
+      spec.before = createIdList(ext.before, 'before');
+    }
+
+    if ('after' in ext) {
+      spec.after = createIdList(ext.after, 'after');
+    }
+
+    return spec;
+  }
+
+  // Create an array of extension ids from a string or an array.
+  function createIdList(ids: any, field: string): string[] {
+    if (typeof ids === 'string') {
+      return [ids];
+    }
+
+    if (!(ids instanceof Array)) {
+      throw new Error(`Extension \`${field}\` must be a string or an array.`);
+    }
+
+    for (let id of ids) {
+      if (typeof id !== 'string') {
+        throw new Error(`Extension \`${field}\` ids must be strings.`);
+      }
+    }
+
+    return ids.slice();
+  }
+
+  // Create a point spec from point JSON data.
+  function createPointSpec(point: any): IPointSpec {
+    if (!isObject(point)) {
+      throw new Error('Extension point must be an object.');
+    }
+
+    if (typeof point.id !== 'string') {
+      throw new Error('Extension point `id` must be a string.');
+    }
+
+    let spec: IPointSpec = { id: point.id, plugin: name };
+
+    if ('main' in point) {
+      if (typeof point.main !== 'string') {
+        throw new Error('Extension point `main` must be a string.');
+      }
+      spec.main = point.main;
+    }
+
+    if ('factory' in point) {
+      if (typeof point.factory !== 'string') {
+        throw new Error('Extension point `factory` must be a string.');
+      }
+      spec.factory = point.factory;
+    }
+
+    if ('activation' in point) {
+      if (!isActivationPolicy(point.activation)) {
+        throw new Error('Extension point `activation` is not a valid policy.');
+      }
+      spec.activation = point.activation;
+    }
+
+    if ('schema' in point) {
+      if (!isObject(point.schema)) {
+        throw new Error('Extension point `schema` must be an object.');
+      }
+      if ('data' in point.schema && !isObject(point.schema.data)) {
+        throw new Error('Extension point `schema.data` must be an object.');
+      }
+      if ('config' in point.schema && !isObject(point.schema.config)) {
+        throw new Error('Extension point `schema.config` must be an object.');
+      }
+      spec.schema = point.schema;
+      spec.patterns = compileSchema(point.schema);
+    }
+
+    spec.cardinality = createCardinality(
+      'cardinality' in point ? point.cardinality : 'multiple'
+    );
+
+    spec.conflict = createConflictPolicy(
+      'conflict' in point ? point.conflict : 'first'
+    );
+
+    return spec;
+  }
+
+  // Create a service spec from service JSON data.
+  function createServiceSpec(service: any): IServiceSpec {
+    if (!isObject(service)) {
+      throw new Error('Service must be an object.');
+    }
+
+    if (typeof service.id !== 'string') {
+      throw new Error('Service `id` must be a string.');
+    }
+
+    if (typeof service.main !== 'string') {
+      throw new Error('Service `main` must be a string.');
+    }
+
+    if (typeof service.factory !== 'string') {
+      throw new Error('Service `factory` must be a string.');
+    }
+
+    return {
+      id: service.id,
+      plugin: name,
+      main: service.main,
+      factory: service.factory,
+    };
+  }
+}
+
+
+//-----------------------------------------------------------------------------
+// Extension Implementation
+//-----------------------------------------------------------------------------
+
+/**
+ * A concrete implementation of `IExtension`.
+ */
+class Extension implements IExtension {
+  /**
+   * Create a new extension from a spec, contrib, and data.
+   *
+   * @param spec - The specification for the extension.
+   *
+   * @param contrib - The contribution for the extension, or `null`.
+   *
+   * @param data - The parsed JSON data for the extension, or `null`.
+   *
+   * @returns A new extension instance.
+   */
+  static create(spec: IExtensionSpec, contrib: IContrib, data: any): Extension {
+    return new Extension(spec.id, spec.point, contrib, data, spec.config);
+  }
+
+  /**
+   * Construct a new extension.
+   *
+   * @param id - The globally unique identifier of the extension.
+   *
+   * @param point - The identifier of the target extension point.
+   *
+   * @param contrib - The contribution for the extension, or `null`.
+   *
+   * @param data - The parsed JSON data for the extension, or `null`.
+   *
+   * @param config - The static configuration data, or `null`.
+   */
+  constructor(id: string, point: string, contrib: IContrib, data: any, config: any) {
+    this._id = id;
+    this._point = point;
+    this._data = data || null;
+    this._config = config || null;
+    this._contrib = contrib || null;
+  }
+
+  /**
+   * Dispose of the resources held by the extension.
+   *
+   * @returns A promise which resolves once the contribution has
+   *   finished its disposal.
+   *
+   * #### Notes
+   * Errors thrown by the contribution are propagated to the caller.
+   */
+  dispose(): Promise<void> {
+    if (this._disposed) {
+      return Promise.resolve<void>();
+    }
+    this._disposed = true;
+    let temp = this._contrib;
+    this._data = null;
+    this._config = null;
+    this._contrib = null;
+    return Promise.resolve<void>(temp && temp.dispose ? temp.dispose() : null);
+  }
+
+  /**
+   * Test whether the extension has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * The globally unique identifier of the extension.
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  /**
+   * The identifier of the target extension point.
+   */
+  get point(): string {
+    return this._point;
+  }
+
+  /**
+   * The behavioral object for the extension, or `null`.
+   */
+  get item(): any {
+    return this._contrib ? this._contrib.item : null;
+  }
+
+  /**
+   * The parsed JSON data for the extension, or `null`.
+   */
+  get data(): any {
+    return this._data;
+  }
+
+  /**
+   * The static configuration data for the extension, or `null`.
+   */
+  get config(): any {
+    return this._config;
+  }
+
+  private _id: string;
+  private _point: string;
+  private _data: any;
+  private _config: any;
+  private _disposed = false;
+  private _contrib: IContrib;
+}
+
+
+/**
+ * An object which provides the specification for an extension.
+ */
+interface IExtensionSpec {
+  /**
+   * The globally unique id of the extension.
+   */
+  id: string;
+
+  /**
+   * The identifier of the first target extension point.
+   */
+  point: string;
+
+  /**
+   * The ids and patterns of the target extension points.
+   */
+  targets: string[];
+
+  /**
+   * The name of the plugin which owns the extension.
+   */
+  plugin?: string;
+
+  /**
+   * The relative path to the extension main module.
+   */
+  main?: string;
+
+  /**
+   * The name of the factory function for the extension.
+   */
+  factory?: string;
+
+  /**
+   * The path to the JSON data file for the extension.
+   */
+  data?: string;
+
+  /**
+   * Extra static configuration data for the extension.
+   */
+  config?: any;
+
+  /**
+   * The activation policy for the extension.
+   */
+  activation?: string;
+
+  /**
+   * The sort rank of the extension within its point.
+   */
+  rank?: number;
+
+  /**
+   * The ids of the extensions which the extension precedes.
+   */
+  before?: string[];
+
+  /**
+   * The ids of the extensions which the extension follows.
+   */
+  after?: string[];
+}
+
+
+/**
+ * A registration record for an extension.
+ */
+interface IExtensionRecord {
+  /**
+   * The life cycle state of the record.
+   */
+  state: RecordState;
+
+  /**
+   * The specification of the extension.
+   */
+  spec: IExtensionSpec;
+
+  /**
+   * The loaded extension object, or `null` if not yet loaded.
+   */
+  value: IExtension;
+
+  /**
+   * The loader promise for the record, or `null` if not loading.
+   */
+  promise: Promise<void>;
+
+  /**
+   * Whether the extension may be loaded and connected to its point.
+   */
+  active: boolean;
+
+  /**
+   * Whether the extension is enabled by the user.
+   */
+  enabled: boolean;
+
+  /**
+   * The errors thrown while adding the extension, keyed by point id.
+   */
+  addErrors: StringMap<any>;
+
+  /**
+   * The extensions delivered to other points than the first target,
+   * keyed by point id.
+   */
+  pairs: StringMap<Extension>;
+
+  /**
+   * The disposal token for the record, or `null` if never loaded.
+   */
+  token: DisposalToken;
+
+  /**
+   * The last error reported for the record, or `null`.
+   */
+  error: IPluginError;
+
+  /**
+   * The time at which the record started loading, or `null`.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the record finished loading, or `null`.
+   */
+  loadFinished: number;
+}
+
+
+/**
+ * Register an extension spec and load the matching extension point.
+ *
+ * If the extension id is already registered, an error will be reported
+ * and the registration will be ignored.
+ *
+ * The returned promise resolves once the extension is connected to
+ * its matching extension point, if one is registered.
+ */
+function registerExtensionSpec(registry: IRegistryData, spec: IExtensionSpec): Promise<void> {
+  // Report an error if the extension id is already registered.
+  if (spec.id in registry.extensions) {
+    let err = new Error(`Extension '${spec.id}' is already registered.`);
+    let source = extensionSource(spec);
+    reportError(registry, ErrorPhase.ValidateSpec, source, err.message, err);
+    return Promise.reject(err);
+  }
+
+  // Create a new unloaded record for the extension.
+  let record: IExtensionRecord = {
+    state: RecordState.Unloaded,
+    spec: spec,
+    value: null,
+    promise: null,
+    active: isActivated(registry, spec.activation),
+    enabled: registry.store.getEnabled(RecordType.Extension, spec.id) !== false,
+    token: null,
+    addErrors: createMap<any>(),
+    pairs: createMap<Extension>(),
+    error: null,
+    loadStarted: null,
+    loadFinished: null,
+  };
+
+  // Add the record to the extension registry.
+  registry.extensions[spec.id] = record;
+  notifyChanged(registry, RecordType.Extension, spec.id, spec.plugin, record.state, record.enabled);
+
+  // Load the matching extension point.
+  return loadMatchingPoint(registry, record);
+}
+
+
+/**
+ * Ensure an extension record is fully loaded.
+ *
+ * It is possible for the the record to be disposed before the loader
+ * promise is resolved, so the caller must validate the record state
+ * after resolving the returned promise.
+ *
+ * The returned promise rejects with the original error if the record
+ * fails to load.
+ */
+function loadExtension(registry: IRegistryData, record: IExtensionRecord): Promise<void> {
+  // If the record is loaded or finalized, there is nothing to do.
+  if (record.state === RecordState.Loaded ||
+      record.state === RecordState.Disposed ||
+      record.state === RecordState.Failed) {
+    return Promise.resolve<void>();
+  }
+
+  // If the record is still loading, return the pending promise.
+  if (record.state === RecordState.Loading) {
+    return record.promise;
+  }
+
+  // Setup local variables.
+  let spec = record.spec;
+  let data: any = null;
+  let phase = ErrorPhase.ImportData;
+
+  // Create the disposal token for the loaded extension.
+  let token = record.token = new DisposalToken();
+
+  // Kick off the promise loading chain.
+  let promise = Promise.resolve().then(() => {
+
+    // Load the extension JSON data, if given. Extensions which
+    // are manually registered will always have a null data file.
+    if (!spec.data) {
+      return null;
+    }
+    let what = `data '${joinPath(spec.plugin, spec.data)}'`;
+    return fetchResource(registry, token, registry.timeouts.data, what, () => {
+      return registry.loader.importData(spec.plugin, spec.data, token);
+    });
+
+  }).then(argdata => {
+
+    // Store the data for later use.
+    data = argdata;
+
+    // Update the loading phase.
+    phase = ErrorPhase.ImportMain;
+
+    // Load the main module for the extension. Extensions which
+    // are manually registered will always have a null main module.
+    return spec.main ? importMain(registry, spec.plugin, spec.main, token) : null;
+
+  }).then(main => {
+
+    // Update the loading phase.
+    phase = ErrorPhase.RunFactory;
+
+    // If there is no factory, skip to the next step.
+    if (!main || !spec.factory) {
+      return null;
+    }
+
+    // Throw an error if the factory is not a function.
+    let factory = main[spec.factory];
+    if (typeof factory !== 'function') {
+      throw new Error(`Extension '${spec.id}' has invalid factory.`);
+    }
+
+    // Create the context for the factory.
+    let context: IExtensionContext = {
+      id: spec.id,
+      plugin: spec.plugin || null,
+      logger: createLogger(spec.id),
+      token: record.token,
+      registry: registry.owner,
+      point: spec.point,
+      targets: spec.targets.slice(),
+      data: data,
+      config: spec.config || null,
+    };
+
+    // Load the result of the factory.
+    return runFactory(registry, extensionSource(spec), token, () => factory(context));
+
+  }).then(contrib => {
+
+    // Throw an error if the contribution interface is invalid.
+    if (contrib && !isContrib(contrib)) {
+      throw new Error(`Extension '${spec.id}' has invalid contribution.`);
+    }
+
+    // Clear the loader promise.
+    record.promise = null;
+
+    // If the record was disposed before reaching this point, release
+    // the item. Otherwise, create the extension and update the record.
+    if (record.state === RecordState.Disposed) {
+      safeDispose(registry, contrib, extensionSource(spec));
+    } else {
+      record.value = Extension.create(spec, contrib, data);
+      setExtensionState(registry, record, RecordState.Loaded);
+    }
+
+  }).catch(err => {
+
+    // Clear the loader promise.
+    record.promise = null;
+
+    // A load which was cancelled by a disposal is not an error.
+    if (isCancelError(err)) {
+      return;
+    }
+
+    // If an error occurs while loading, report it to the handler.
+    let message = `Error occured while loading extension '${spec.id}'.`;
+    let source = extensionSource(spec);
+    record.error = reportError(registry, phase, source, message, err);
+
+    // Unregister the extension and mark it as failed. A record which
+    // was disposed while loading has already been unregistered.
+    if (record.state !== RecordState.Disposed) {
+      delete registry.extensions[spec.id];
+      setExtensionState(registry, record, RecordState.Failed);
+      safeDispose(registry, record.token, source);
+    }
+
+    // Propagate the error to the caller.
+    throw err;
+
+  });
+
+  // Update the record loading state.
+  record.promise = promise;
+  setExtensionState(registry, record, RecordState.Loading);
+
+  // Return the new loader promise.
+  return promise;
+}
+
+
+/**
+ * Dispose of the extension record with the specified id.
+ *
+ * If `refill` is `false`, the slots vacated at the points of the
+ * extension are not filled with reserved extensions.
+ *
+ * The returned promise resolves once a pending load has settled and
+ * the extension has finished its disposal. It never rejects.
+ */
+function disposeExtension(registry: IRegistryData, id: string, refill = true): Promise<void> {
+  // Do nothing if the id is not registered.
+  if (!(id in registry.extensions)) {
+    return Promise.resolve<void>();
+  }
+
+  // Delete the registration record.
+  let record = registry.extensions[id];
+  delete registry.extensions[id];
+
+  // Signal the disposal to the extension factory.
+  let source = extensionSource(record.spec);
+  safeDispose(registry, record.token, source);
+
+  // If the record is not loaded, mark it as disposed. A loading
+  // record will be handled by the loader on completion.
+  if (record.state !== RecordState.Loaded) {
+    setExtensionState(registry, record, RecordState.Disposed);
+    return whenSettled(record);
+  }
+
+  // Remove the extension from the points it was delivered to.
+  let others = matchingPoints(registry, record.spec);
+  for (let other of others) {
+    removeReserved(other, id);
+    removeDelivered(registry, other, id);
+  }
+
+  // Dispose of the extension and its pairings.
+  setExtensionState(registry, record, RecordState.Disposed);
+  let promises: Promise<void>[] = [];
+  for (let key in record.pairs) {
+    promises.push(safeDispose(registry, record.pairs[key], source));
+  }
+  promises.push(safeDispose(registry, record.value, source));
+
+  // Fill the vacated slots with reserved extensions.
+  if (refill) {
+    for (let other of others) {
+      addMatches(registry, other);
+    }
+  }
+
+  // Wait for the extension to finish its disposal.
+  return settleAll(promises);
+}
+
+
+/**
+ * Apply a new enabled state to an extension record.
+ *
+ * A disabled extension stays registered, and it is unloaded: it is
+ * removed from its points, the vacated slots are filled with reserved
+ * extensions, and its contribution is disposed. An enabled extension
+ * is loaded and connected to its points.
+ *
+ * The returned promise resolves once an enabled extension is loaded,
+ * or once a disabled extension has finished its disposal.
+ */
+function enableExtension(registry: IRegistryData, record: IExtensionRecord, enabled: boolean): Promise<void> {
+  // Do nothing if the state is unchanged.
+  if (record.enabled === enabled) {
+    return Promise.resolve<void>();
+  }
+
+  // Update the record and notify the change listeners.
+  record.enabled = enabled;
+  setExtensionState(registry, record, record.state);
+
+  // Connect an enabled extension to its point, or unload it.
+  if (enabled) {
+    return loadMatchingPoint(registry, record);
+  }
+  return unloadExtension(registry, record);
+}
+
+
+/**
+ * Unload a disabled extension record without unregistering it.
+ *
+ * A loading record is unloaded once its load has settled. The record
+ * returns to the `Unloaded` state, so it is loaded again when it is
+ * enabled.
+ *
+ * The returned promise resolves once the extension has finished its
+ * disposal. It never rejects.
+ */
+function unloadExtension(registry: IRegistryData, record: IExtensionRecord): Promise<void> {
+  // Wait for a pending load to settle.
+  if (record.state === RecordState.Loading) {
+    return whenSettled(record).then(() => {
+      return record.enabled ? void 0 : unloadExtension(registry, record);
+    });
+  }
+
+  // Do nothing if the record is not loaded.
+  if (record.state !== RecordState.Loaded) {
+    return Promise.resolve<void>();
+  }
+
+  // Remove the extension from its points.
+  let id = record.spec.id;
+  let others = matchingPoints(registry, record.spec);
+  for (let pRecord of others) {
+    removeReserved(pRecord, id);
+    removeDelivered(registry, pRecord, id);
+  }
+
+  // Dispose of the extension, its pairings, and its token.
+  let source = extensionSource(record.spec);
+  let promises: Promise<void>[] = [];
+  for (let key in record.pairs) {
+    promises.push(safeDispose(registry, record.pairs[key], source));
+  }
+  promises.push(safeDispose(registry, record.value, source));
+  safeDispose(registry, record.token, source);
+
+  // Reset the record to the unloaded state.
+  record.value = null;
+  record.token = null;
+  record.pairs = createMap<Extension>();
+  record.addErrors = createMap<any>();
+  setExtensionState(registry, record, RecordState.Unloaded);
+
+  // Fill the vacated slots with reserved extensions.
+  for (let pRecord of others) {
+    addMatches(registry, pRecord);
+  }
+
+  // Wait for the extension to finish its disposal.
+  return settleAll(promises);
+}
+
+
+/**
+ * Set the state of an extension record and notify the change listeners.
+ */
+function setExtensionState(registry: IRegistryData, record: IExtensionRecord, state: RecordState): void {
+  record.state = state;
+  updateLoadTimes(record, state);
+  let spec = record.spec;
+  notifyChanged(registry, RecordType.Extension, spec.id, spec.plugin || null, state, record.enabled);
+}
+
+
+/**
+ * Create an error source for an extension spec.
+ */
+function extensionSource(spec: IExtensionSpec): IErrorSource {
+  let plugin = spec.plugin || null;
+  return { plugin, extension: spec.id, point: spec.point, service: null };
+}
+
+
+/**
+ * Create a new info object for an extension record.
+ */
+function createExtensionInfo(registry: IRegistryData, record: IExtensionRecord): IExtensionInfo {
+  let spec = record.spec;
+  let points: string[] = [];
+  for (let pRecord of matchingPoints(registry, spec)) {
+    if (pRecord.delivered.indexOf(spec.id) !== -1) points.push(pRecord.spec.id);
+  }
+  return {
+    id: spec.id,
+    state: record.state,
+    plugin: spec.plugin || null,
+    point: spec.point,
+    targets: spec.targets.slice(),
+    points: points,
+    main: spec.main || null,
+    factory: spec.factory || null,
+    data: spec.data || null,
+    config: spec.config || null,
+    activation: spec.activation || null,
+    active: record.active,
+    enabled: record.enabled,
+    rank: typeof spec.rank === 'number' ? spec.rank : null,
+    before: spec.before ? spec.before.slice() : [],
+    after: spec.after ? spec.after.slice() : [],
+    connected: points.length > 0,
+    error: record.error,
+    loadStarted: record.loadStarted,
+    loadFinished: record.loadFinished,
+  };
+}
+
+
+//-----------------------------------------------------------------------------
+// Extension Point Implementation
+//-----------------------------------------------------------------------------
+
+/**
+ * A concrete implementation of `IExtensionPoint`.
+ *
+ * #### Notes
+ * A declarative point has no receiver. Its extensions are collected
+ * by the extension list of the point record.
+ */
+class ExtensionPoint implements IExtensionPoint {
+  /**
+   * Create a new extension point from a spec and receiver.
+   *
+   * @param spec - The specification for the extension point.
+   *
+   * @param receiver - The receiver for the extension point, or `null`.
+   */
+  static create(spec: IPointSpec, receiver: IReceiver): ExtensionPoint {
+    return new ExtensionPoint(spec.id, receiver);
+  }
+
+  /**
+   * Construct a new extension point.
+   *
+   * @param id - The globally unique id of the extension point.
+   *
+   * @param receiver - The receiver for the extension point, or `null`.
+   */
+  constructor(id: string, receiver: IReceiver) {
+    this._id = id;
+    this._receiver = receiver || null;
+  }
+
+  /**
+   * Dispose of the resources held by the extension point.
+   *
+   * @returns A promise which resolves once the receiver has finished
+   *   its disposal.
+   *
+   * #### Notes
+   * Errors thrown by the receiver are propagated to the caller.
+   */
+  dispose(): Promise<void> {
+    if (this._disposed) {
+      return Promise.resolve<void>();
+    }
+    this._disposed = true;
+    let temp = this._receiver;
+    this._receiver = null;
+    return Promise.resolve<void>(temp && temp.dispose ? temp.dispose() : null);
+  }
+
+  /**
+   * Test whether the extension point has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * The globally unique id of the extension point.
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  /**
+   * Add an extension to the extension point.
+   */
+  add(extension: IExtension, index?: number): void {
+    if (this._receiver) this._receiver.add(extension, index);
+  }
+
+  /**
+   * Remove an extension from the extension point.
+   */
+  remove(id: string): void {
+    if (this._receiver) this._receiver.remove(id);
+  }
+
+  private _id: string;
+  private _disposed = false;
+  private _receiver: IReceiver;
+}
+
+
+/**
+ * A concrete implementation of `IExtensionList`.
+ */
+class ExtensionList implements IExtensionList {
+  /**
+   * Construct a new extension list.
+   *
+   * @param point - The id of the extension point.
+   */
+  constructor(point: string) {
+    this._point = point;
+  }
+
+  /**
+   * The id of the extension point.
+   */
+  get point(): string {
+    return this._point;
+  }
+
+  /**
+   * A new array of the current extensions of the point, in order.
+   */
+  get extensions(): IExtension[] {
+    return this._extensions.slice();
+  }
+
+  /**
+   * Add a listener for the changes to the list.
+   */
+  onChanged(listener: ExtensionListListener): IDisposable {
+    let listeners = this._listeners;
+    listeners.push(listener);
+    return new DisposableDelegate(() => {
+      let i = listeners.indexOf(listener);
+      if (i !== -1) listeners.splice(i, 1);
+    });
+  }
+
+  /**
+   * Insert an extension into the list and notify the listeners.
+   */
+  insert(index: number, extension: IExtension): void {
+    this._extensions.splice(index, 0, extension);
+    this._notify({ type: 'add', id: extension.id, index });
+  }
+
+  /**
+   * Remove an extension from the list and notify the listeners.
+   */
+  remove(index: number): void {
+    let extension = this._extensions.splice(index, 1)[0];
+    this._notify({ type: 'remove', id: extension.id, index });
+  }
+
+  /**
+   * Notify the listeners of a change to the list.
+   *
+   * Errors thrown by the listeners will be caught and logged.
+   */
+  private _notify(change: IExtensionListChange): void {
+    for (let listener of this._listeners.slice()) {
+      try {
+        listener(change);
+      } catch (err) {
+        console.error(err);
+      }
+    }
+  }
+
+  private _point: string;
+  private _extensions: IExtension[] = [];
+  private _listeners: ExtensionListListener[] = [];
+}
+
+
+/**
+ * Get the live extension list for a point id, creating it if needed.
+ */
+function getList(registry: IRegistryData, id: string): ExtensionList {
+  if (!(id in registry.lists)) {
+    registry.lists[id] = new ExtensionList(id);
+  }
+  return registry.lists[id];
+}
+
+
+/**
+ * An object which provides the specification for an extension point.
+ */
+interface IPointSpec {
+  /**
+   * The globally unique id of the extension point.
+   */
+  id: string;
+
+  /**
+   * The name of the plugin which owns the point.
+   */
+  plugin?: string;
+
+  /**
+   * The relative path to the extension point main module.
+   */
+  main?: string;
+
+  /**
+   * The name of the factory function for the extension point.
+   */
+  factory?: string;
+
+  /**
+   * The activation policy for the extension point.
+   */
+  activation?: string;
+
+  /**
+   * The schemas for the data and config of extensions.
+   */
+  schema?: IPointSchema;
+
+  /**
+   * The compiled patterns of the schemas, keyed by pattern source.
+   */
+  patterns?: StringMap<RegExp>;
+
+  /**
+   * The normalized cardinality of the extension point.
+   */
+  cardinality?: ICardinality;
+
+  /**
+   * The conflict policy of the extension point.
+   *
+   * Under the `'rank'` policy, a higher rank is stronger.
+   */
+  conflict?: string;
+}
+
+
+/**
+ * A registration record for an extension point.
+ */
+interface IPointRecord {
+  /**
+   * The life cycle state of the record.
+   */
+  state: RecordState;
+
+  /**
+   * The specification of the extension point.
+   */
+  spec: IPointSpec;
+
+  /**
+   * The loaded extension point object, or `null` if not yet loaded.
+   */
+  value: IExtensionPoint;
+
+  /**
+   * The loader promise for the record, or `null` if not loading.
    */
   promise: Promise<void>;
+
+  /**
+   * Whether the point may be loaded and connected to its extensions.
+   */
+  active: boolean;
+
+  /**
+   * The disposal token for the record, or `null` if never loaded.
+   */
+  token: DisposalToken;
+
+  /**
+   * The ids of the extensions which have been added to the point.
+   *
+   * The ids are stored in sorted order.
+   */
+  delivered: string[];
+
+  /**
+   * The ids of the loaded extensions held back because the point is
+   * full. They are added when a delivered extension is removed.
+   */
+  reserved: string[];
+
+  /**
+   * The live list of the delivered extensions.
+   */
+  list: ExtensionList;
+
+  /**
+   * The number of times the receiver has failed.
+   */
+  failures: number;
+
+  /**
+   * Whether the receiver is no longer invoked.
+   */
+  quarantined: boolean;
+
+  /**
+   * The last error reported for the record, or `null`.
+   */
+  error: IPluginError;
+
+  /**
+   * The time at which the record started loading, or `null`.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the record finished loading, or `null`.
+   */
+  loadFinished: number;
+}
+
+
+/**
+ * Register an extension point spec and load any matching extensions.
+ *
+ * If the point id is already registered, an error will be reported
+ * and the registration will be ignored.
+ *
+ * The returned promise resolves once the point is connected to all
+ * of its currently registered matching extensions.
+ */
+function registerPointSpec(registry: IRegistryData, spec: IPointSpec): Promise<void> {
+  // Report an error if the extension point id is already registered.
+  if (spec.id in registry.points) {
+    let err = new Error(`Extension point '${spec.id}' is already registered.`);
+    let source = pointSource(spec);
+    reportError(registry, ErrorPhase.ValidateSpec, source, err.message, err);
+    return Promise.reject(err);
+  }
+
+  // Create a new unloaded record for the point.
+  let record: IPointRecord = {
+    state: RecordState.Unloaded,
+    spec: spec,
+    value: null,
+    promise: null,
+    active: isActivated(registry, spec.activation),
+    token: null,
+    delivered: [],
+    reserved: [],
+    list: getList(registry, spec.id),
+    failures: 0,
+    quarantined: false,
+    error: null,
+    loadStarted: null,
+    loadFinished: null,
+  };
+
+  // Add the record to the point registry.
+  registry.points[spec.id] = record;
+  notifyChanged(registry, RecordType.Point, spec.id, spec.plugin, record.state);
+
+  // Load any matching extensions.
+  return loadMatchingExtensions(registry, record);
+}
+
+
+/**
+ * Ensure an extension point record is fully loaded.
+ *
+ * It is possible for the the record to be disposed before the loader
+ * promise is resolved, so the caller must validate the record state
+ * after resolving the returned promise.
+ *
+ * The returned promise rejects with the original error if the record
+ * fails to load.
+ */
+function loadPoint(registry: IRegistryData, record: IPointRecord): Promise<void> {
+  // If the record is loaded or finalized, there is nothing to do.
+  if (record.state === RecordState.Loaded ||
+      record.state === RecordState.Disposed ||
+      record.state === RecordState.Failed) {
+    return Promise.resolve<void>();
+  }
+
+  // If the record is still loading, return the pending promise.
+  if (record.state === RecordState.Loading) {
+    return record.promise;
+  }
+
+  // Setup local variables.
+  let spec = record.spec;
+  let phase = ErrorPhase.ImportMain;
+
+  // Create the disposal token for the loaded point.
+  let token = record.token = new DisposalToken();
+
+  // Kick off the loader promise chain.
+  let promise = Promise.resolve().then(() => {
+
+    // Load the main module for the extension point. Points which
+    // are manually registered will always have a null main module.
+    return spec.main ? importMain(registry, spec.plugin, spec.main, token) : null;
+
+  }).then(main => {
+
+    // Update the loading phase.
+    phase = ErrorPhase.RunFactory;
+
+    // If there is no factory, skip to the next step.
+    if (!main || !spec.factory) {
+      return null;
+    }
+
+    // Throw an error if the factory is not a function.
+    let factory = main[spec.factory];
+    if (typeof factory !== 'function') {
+      throw new Error(`Extension point '${spec.id}' has invalid factory.`);
+    }
+
+    // Create the context for the factory.
+    let context: IPointContext = {
+      id: spec.id,
+      plugin: spec.plugin || null,
+      logger: createLogger(spec.id),
+      token: record.token,
+      registry: registry.owner,
+      schema: spec.schema || null,
+    };
+
+    // Load the result of the factory.
+    return runFactory(registry, pointSource(spec), token, () => factory(context));
+
+  }).then(receiver => {
+
+    // Throw an error if the receiver interface is invalid.
+    if (receiver && !isReceiver(receiver)) {
+      throw new Error(`Extension point '${spec.id}' has invalid receiver.`);
+    }
+
+    // Clear the loader promise.
+    record.promise = null;
+
+    // If the record was disposed before reaching this point, release
+    // the receiver. Otherwise, create the point and update the record.
+    if (record.state === RecordState.Disposed) {
+      safeDispose(registry, receiver, pointSource(spec));
+    } else {
+      record.value = ExtensionPoint.create(spec, receiver);
+      setPointState(registry, record, RecordState.Loaded);
+    }
+
+  }).catch(err => {
+
+    // Clear the loader promise.
+    record.promise = null;
+
+    // A load which was cancelled by a disposal is not an error.
+    if (isCancelError(err)) {
+      return;
+    }
+
+    // If an error occurs while loading, report it to the handler.
+    let message = `Error occured while loading extension point '${spec.id}'.`;
+    let source = pointSource(spec);
+    record.error = reportError(registry, phase, source, message, err);
+
+    // Unregister the extension point and mark it as failed. A record
+    // which was disposed while loading has already been unregistered.
+    if (record.state !== RecordState.Disposed) {
+      delete registry.points[spec.id];
+      setPointState(registry, record, RecordState.Failed);
+      safeDispose(registry, record.token, source);
+    }
+
+    // Propagate the error to the caller.
+    throw err;
+
+  });
+
+  // Update the record loading state.
+  record.promise = promise;
+  setPointState(registry, record, RecordState.Loading);
+
+  // Return the new loader promise.
+  return promise;
+}
+
+
+/**
+ * Dispose of the extension point record with the specified id.
+ *
+ * The returned promise resolves once a pending load has settled and
+ * the receiver has finished its disposal. It never rejects.
+ */
+function disposePoint(registry: IRegistryData, id: string): Promise<void> {
+  // Do nothing if the id is not registered.
+  if (!(id in registry.points)) {
+    return Promise.resolve<void>();
+  }
+
+  // Delete the registration record.
+  let record = registry.points[id];
+  delete registry.points[id];
+
+  // Signal the disposal to the extension point factory.
+  let source = pointSource(record.spec);
+  safeDispose(registry, record.token, source);
+
+  // If the record is not loaded, mark it as disposed. A loading
+  // record will be handled by the loader on completion.
+  if (record.state !== RecordState.Loaded) {
+    setPointState(registry, record, RecordState.Disposed);
+    return whenSettled(record);
+  }
+
+  // Mark the extension point as disposed.
+  setPointState(registry, record, RecordState.Disposed);
+
+  // Remove the delivered extensions in the reverse order of addition.
+  for (let other of record.delivered.slice().reverse()) {
+    removeDelivered(registry, record, other);
+  }
+
+  // Dispose of the extension point.
+  return safeDispose(registry, record.value, source);
+}
+
+
+/**
+ * Set the state of a point record and notify the change listeners.
+ */
+function setPointState(registry: IRegistryData, record: IPointRecord, state: RecordState): void {
+  record.state = state;
+  updateLoadTimes(record, state);
+  let spec = record.spec;
+  notifyChanged(registry, RecordType.Point, spec.id, spec.plugin || null, state);
 }
 
 
 /**
- * A mapping of extension id to extension record.
+ * Create an error source for an extension point spec.
  */
-var extensionRegistry = createMap<IExtensionRecord>();
+function pointSource(spec: IPointSpec): IErrorSource {
+  let plugin = spec.plugin || null;
+  return { plugin, extension: null, point: spec.id, service: null };
+}
 
 
 /**
- * Register an extension spec and load the matching extension point.
+ * Create a normalized cardinality from a cardinality value.
  *
- * If the extension id is already registered, an error will be logged
- * and the registration will be ignored.
+ * This will throw an error if the value is invalid.
  */
-function registerExtensionSpec(spec: IExtensionSpec): void {
-  // Log an error if the extension id is already registered.
-  if (spec.id in extensionRegistry) {
-    console.error(`Extension '${spec.id}' is already registered.`);
-    return;
+function createCardinality(value: any): ICardinality {
+  if (value === 'single') {
+    return { min: 0, max: 1 };
   }
 
-  // Create a new unloaded record for the extension.
-  let record: IExtensionRecord = {
-    state: RecordState.Unloaded,
-    spec: spec,
-    value: null,
-    promise: null,
+  if (value === 'multiple') {
+    return { min: 0, max: Infinity };
+  }
+
+  if (!isObject(value)) {
+    throw new Error('Extension point `cardinality` is not valid.');
+  }
+
+  let min = 'min' in value ? value.min : 0;
+  let max = 'max' in value ? value.max : Infinity;
+
+  if (!isCount(min) || !(isCount(max) || max === Infinity) || min > max) {
+    throw new Error('Extension point `cardinality` is not valid.');
+  }
+
+  return { min, max };
+}
+
+
+/**
+ * Test whether a value is a non-negative integer count.
+ */
+function isCount(value: any): boolean {
+  return typeof value === 'number' && value >= 0 && value % 1 === 0;
+}
+
+
+/**
+ * Validate an extension point conflict policy.
+ *
+ * This will throw an error if the value is invalid.
+ */
+function createConflictPolicy(value: any): string {
+  if (value !== 'first' && value !== 'rank' && value !== 'error') {
+    throw new Error('Extension point `conflict` is not valid.');
+  }
+  return value;
+}
+
+
+/**
+ * Create a new info object for an extension point record.
+ */
+function createPointInfo(record: IPointRecord): IPointInfo {
+  let spec = record.spec;
+  let cardinality = spec.cardinality;
+  return {
+    id: spec.id,
+    state: record.state,
+    plugin: spec.plugin || null,
+    main: spec.main || null,
+    factory: spec.factory || null,
+    activation: spec.activation || null,
+    active: record.active,
+    extensions: record.delivered.slice(),
+    reserved: record.reserved.slice(),
+    min: cardinality ? cardinality.min : 0,
+    max: cardinality && cardinality.max !== Infinity ? cardinality.max : null,
+    conflict: spec.conflict || 'first',
+    failures: record.failures,
+    quarantined: record.quarantined,
+    error: record.error,
+    loadStarted: record.loadStarted,
+    loadFinished: record.loadFinished,
   };
+}
 
-  // Add the record to the extension registry.
-  extensionRegistry[spec.id] = record;
 
-  // Load the matching extension point.
-  loadMatchingPoint(record);
+//-----------------------------------------------------------------------------
+// Extension Point Matching
+//-----------------------------------------------------------------------------
+
+/**
+ * Load all matching extensions for the given point record.
+ *
+ * Only active extensions are loaded, and nothing is loaded unless the
+ * point itself is active.
+ *
+ * The returned promise resolves once all matches are connected.
+ */
+function loadMatchingExtensions(registry: IRegistryData, pRecord: IPointRecord): Promise<void> {
+  if (!pRecord.active) {
+    return Promise.resolve<void>();
+  }
+  let eRecords: IExtensionRecord[] = [];
+  for (let key in registry.extensions) {
+    let eRecord = registry.extensions[key];
+    if (eRecord.active && eRecord.enabled && matchesPoint(eRecord.spec, pRecord.spec.id)) {
+      eRecords.push(eRecord);
+    }
+  }
+  if (eRecords.length === 0) {
+    return Promise.resolve<void>();
+  }
+  return loadMatches(registry, pRecord, eRecords);
 }
 
 
 /**
- * Ensure an extension record is fully loaded.
+ * Load the matching extension points for the given extension record.
  *
- * It is possible for the the record to be disposed before the loader
- * promise is resolved, so the caller must validate the record state
- * after resolving the returned promise.
+ * Nothing is loaded unless both the extension and a point are active.
+ *
+ * The returned promise resolves once the matches are connected.
  */
-function loadExtension(record: IExtensionRecord): Promise<void> {
-  // If the record is disposed or loaded, there is nothing to do.
-  if (record.state === RecordState.Disposed ||
-      record.state === RecordState.Loaded) {
+function loadMatchingPoint(registry: IRegistryData, eRecord: IExtensionRecord): Promise<void> {
+  if (!eRecord.active || !eRecord.enabled) {
     return Promise.resolve<void>();
   }
+  let promises: Promise<void>[] = [];
+  for (let pRecord of matchingPoints(registry, eRecord.spec)) {
+    if (pRecord.active) promises.push(loadMatches(registry, pRecord, [eRecord]));
+  }
+  return settleAll(promises);
+}
 
-  // If the record is still loading, return the pending promise.
-  if (record.state === RecordState.Loading) {
-    return record.promise;
+
+/**
+ * Get the registered point records which match an extension spec.
+ */
+function matchingPoints(registry: IRegistryData, spec: IExtensionSpec): IPointRecord[] {
+  let result: IPointRecord[] = [];
+  for (let key in registry.points) {
+    if (matchesPoint(spec, key)) result.push(registry.points[key]);
   }
+  return result;
+}
 
-  // Setup local variables.
-  let spec = record.spec;
-  let data: any = null;
 
-  // Kick off the promise loading chain.
-  let promise = Promise.resolve().then(() => {
+/**
+ * Test whether an extension spec targets the given point id.
+ *
+ * A target which contains a `*` is matched as a pattern of point ids.
+ */
+function matchesPoint(spec: IExtensionSpec, id: string): boolean {
+  return spec.targets.some(target => {
+    return target.indexOf('*') === -1 ? target === id : createPattern(target).test(id);
+  });
+}
 
-    // Load the extension JSON data, if given. Extensions which
-    // are manually registered will always have a null data file.
-    return spec.data ? System.import(`${spec.plugin}/${spec.data}`) : null;
 
-  }).then(argdata => {
+/**
+ * Get the extension object to deliver to a point for a loaded record.
+ *
+ * The loaded extension is delivered to its first target. Every other
+ * point receives its own extension object, which shares the item,
+ * data, and config of the loaded extension.
+ */
+function pairExtension(eRecord: IExtensionRecord, id: string): IExtension {
+  let value = eRecord.value;
+  if (value.point === id) {
+    return value;
+  }
+  if (!(id in eRecord.pairs)) {
+    let contrib = { item: value.item };
+    eRecord.pairs[id] = new Extension(value.id, id, contrib, value.data, value.config);
+  }
+  return eRecord.pairs[id];
+}
 
-    // Store the data for later use.
-    data = argdata;
 
-    // Load the main module for the extension. Extensions which
-    // are manually registered will always have a null main module.
-    return spec.main ? System.import(`${spec.plugin}/${spec.main}`) : null;
+/**
+ * Load and connect a point record and a batch of matching extensions.
+ *
+ * Each extension is added at its sorted index once it has loaded and
+ * the optional settle wait of the point has finished. This ensures the
+ * resulting order does not depend on the order in which the records
+ * finish loading.
+ *
+ * The returned promise resolves once the extensions have been added
+ * to the point, and rejects if any of the records fail to load or
+ * fail to be added.
+ */
+function loadMatches(registry: IRegistryData, pRecord: IPointRecord,
+                     eRecords: IExtensionRecord[]): Promise<void> {
+  let pid = pRecord.spec.id;
+  let loaded = loadPoint(registry, pRecord);
+  let settled = loaded.catch(() => { }).then(() => {
+    return whenMatchesSettled(registry, pRecord);
+  });
+  let promises = [loaded];
+  for (let eRecord of eRecords) {
+    let promise = loadExtension(registry, eRecord);
+    let added = Promise.all([settled, promise.catch(() => { })]).then(() => {
+      addMatches(registry, pRecord);
+      if (pid in eRecord.addErrors) throw eRecord.addErrors[pid];
+    });
+    promises.push(promise, added);
+  }
+  return settleAll(promises);
+}
 
-  }).then(main => {
 
-    // If there is no factory, skip to the next step.
-    if (!main || !spec.factory) {
-      return null;
-    }
+/**
+ * Wait for the loading extensions which match a point to settle.
+ *
+ * The wait is bounded by the `settle` time of the registry, which is
+ * zero by default, so a slow extension cannot hold back the other
+ * extensions of the point unless the wait is requested.
+ */
+function whenMatchesSettled(registry: IRegistryData, pRecord: IPointRecord): Promise<void> {
+  let timeout = registry.timeouts.settle;
+  if (!(timeout > 0)) {
+    return Promise.resolve<void>();
+  }
+  let waiting = waitForMatches(registry, pRecord);
+  if (timeout === Infinity) {
+    return waiting;
+  }
+  let timer: any = null;
+  let expired = new Promise<void>(resolve => { timer = setTimeout(resolve, timeout); });
+  return Promise.race([waiting, expired]).then(() => { clearTimeout(timer); });
+}
 
-    // Throw an error if the factory is not a function.
-    let factory = main[spec.factory];
-    if (typeof factory !== 'function') {
-      throw new Error(`Extension '${spec.id}' has invalid factory.`);
-    }
 
-    // Load the result of the factory.
-    return factory();
+/**
+ * Wait for every loading extension which matches a point to settle.
+ */
+function waitForMatches(registry: IRegistryData, pRecord: IPointRecord): Promise<void> {
+  let pending: Promise<void>[] = [];
+  for (let key in registry.extensions) {
+    let eRecord = registry.extensions[key];
+    if (!matchesPoint(eRecord.spec, pRecord.spec.id)) continue;
+    if (eRecord.state !== RecordState.Loading) continue;
+    pending.push(eRecord.promise.catch(() => { }));
+  }
+  if (pending.length === 0) {
+    return Promise.resolve<void>();
+  }
+  return Promise.all(pending).then(() => waitForMatches(registry, pRecord));
+}
 
-  }).then(contrib => {
 
-    // Throw an error if the contribution interface is invalid.
-    if (contrib && !isContrib(contrib)) {
-      throw new Error(`Extension '${spec.id}' has invalid contribution.`);
+/**
+ * Add the loaded extensions which match a point, in sorted order.
+ *
+ * An extension is never added to the same point record twice, and an
+ * extension which failed to be added to the point is not added again.
+ * Nothing is added to a quarantined point. Under the `'rank'` policy,
+ * the strongest extensions are added first.
+ */
+function addMatches(registry: IRegistryData, pRecord: IPointRecord): void {
+  if (pRecord.state !== RecordState.Loaded || pRecord.quarantined) {
+    return;
+  }
+  let pid = pRecord.spec.id;
+  let ids: string[] = [];
+  for (let key in registry.extensions) {
+    let eRecord = registry.extensions[key];
+    if (!matchesPoint(eRecord.spec, pid)) continue;
+    if (eRecord.state !== RecordState.Loaded) continue;
+    if (!eRecord.active || !eRecord.enabled) continue;
+    if (pid in eRecord.addErrors) continue;
+    if (pRecord.delivered.indexOf(key) !== -1) continue;
+    ids.push(key);
+  }
+  let cardinality = pRecord.spec.cardinality;
+  let max = cardinality ? cardinality.max : Infinity;
+  let order = sortExtensions(registry, ids);
+  if (pRecord.spec.conflict === 'rank') {
+    order = sortByStrength(registry, order);
+  }
+  for (let id of order) {
+    if (pRecord.quarantined) {
+      break;
     }
+    let eRecord = registry.extensions[id];
+    try {
+      if (pRecord.delivered.length < max) {
+        removeReserved(pRecord, id);
+        addMatch(registry, pRecord, eRecord);
+      } else {
+        resolveConflict(registry, pRecord, eRecord);
+      }
+    } catch (err) {
+      eRecord.addErrors[pid] = err;
+    }
+  }
+}
 
-    // Clear the loader promise.
-    record.promise = null;
 
-    // If the record was disposed before reaching this point, release
-    // the item. Otherwise, create the extension and update the record.
-    if (record.state === RecordState.Disposed) {
-      safeDispose(contrib);
-    } else {
-      record.value = Extension.create(spec, contrib, data);
-      record.state = RecordState.Loaded;
+/**
+ * Resolve a conflict for an extension which matches a full point.
+ *
+ * The conflict is resolved according to the point conflict policy:
+ *
+ * - `'first'`: the extension is held in reserve.
+ * - `'rank'`: the weakest delivered extension is replaced by the new
+ *   extension and held in reserve, if the new extension has a higher
+ *   rank. Otherwise, the new extension is held in reserve.
+ * - `'error'`: the extension is rejected.
+ *
+ * A replacement notifies the change listeners of the point. Any other
+ * conflict is reported to the error handler. A reserved extension is
+ * not reported again, but under the `'rank'` policy it may still
+ * replace a delivered extension.
+ */
+function resolveConflict(registry: IRegistryData, pRecord: IPointRecord,
+                         eRecord: IExtensionRecord): void {
+  // Setup the local variables.
+  let id = eRecord.spec.id;
+  let pid = pRecord.spec.id;
+  let policy = pRecord.spec.conflict;
+  let reserved = pRecord.reserved.indexOf(id) !== -1;
+  let source = pointSource(pRecord.spec);
+  source.extension = id;
+  let phase = ErrorPhase.Cardinality;
+
+  // Replace the weakest delivered extension, if it is weaker.
+  if (policy === 'rank') {
+    let order = sortByStrength(registry, pRecord.delivered.concat(id));
+    let last = order[order.length - 1];
+    if (last !== id) {
+      removeReserved(pRecord, id);
+      removeDelivered(registry, pRecord, last);
+      pRecord.reserved.push(last);
+      try {
+        addMatch(registry, pRecord, eRecord);
+      } catch (err) {
+        eRecord.addErrors[pid] = err;
+        removeReserved(pRecord, last);
+        addMatches(registry, pRecord);
+        throw err;
+      }
+      let plugin = pRecord.spec.plugin || null;
+      notifyChanged(registry, RecordType.Point, pid, plugin, pRecord.state);
+      return;
     }
+  }
 
-  }).catch(err => {
+  // Do nothing if the extension is already held in reserve.
+  if (reserved) {
+    return;
+  }
 
-    // If an error occurs while loading, log it to the console.
-    console.error(`Error occured while loading extension '${spec.id}'.`);
-    console.error(err);
+  // Report the conflict.
+  let message = `Extension '${id}' was not added to full extension point '${pid}'.`;
+  let err = new Error(message);
+  eRecord.error = reportError(registry, phase, source, message, err);
 
-    // Clear the loader promise.
-    record.promise = null;
+  // Reject the extension or hold it in reserve.
+  if (policy === 'error') {
+    throw err;
+  }
+  pRecord.reserved.push(id);
+}
+
+
+/**
+ * Remove a reserved extension from a point record.
+ *
+ * This is a no-op if the extension is not reserved by the point.
+ */
+function removeReserved(pRecord: IPointRecord, id: string): void {
+  let i = pRecord.reserved.indexOf(id);
+  if (i !== -1) pRecord.reserved.splice(i, 1);
+}
+
+
+/**
+ * Enforce the minimum number of extensions for a loaded point.
+ *
+ * An error is reported and thrown if too few extensions are connected.
+ */
+function checkMinimum(registry: IRegistryData, pRecord: IPointRecord): void {
+  let cardinality = pRecord.spec.cardinality;
+  let min = cardinality ? cardinality.min : 0;
+  if (pRecord.delivered.length >= min) {
+    return;
+  }
+  let message = `Extension point '${pRecord.spec.id}' requires at least ${min} extensions.`;
+  let err = new Error(message);
+  let source = pointSource(pRecord.spec);
+  let phase = ErrorPhase.Cardinality;
+  pRecord.error = reportError(registry, phase, source, err.message, err);
+  throw err;
+}
+
+
+/**
+ * Add a loaded extension to a loaded point at its sorted position.
+ *
+ * The extension is inserted before the first delivered extension which
+ * sorts after it. The delivered extensions are never moved, so a late
+ * ordering constraint which contradicts their order is not applied to
+ * them.
+ *
+ * Errors are reported and rethrown.
+ */
+function addMatch(registry: IRegistryData, pRecord: IPointRecord,
+                  eRecord: IExtensionRecord): void {
+  validateMatch(registry, pRecord, eRecord);
+  let id = eRecord.spec.id;
+  let delivered = pRecord.delivered;
+  let order = sortExtensions(registry, delivered.concat([id]));
+  let following = order.slice(order.indexOf(id) + 1);
+  let index = 0;
+  while (index < delivered.length && following.indexOf(delivered[index]) === -1) {
+    index++;
+  }
+  deliverMatch(registry, pRecord, eRecord, index);
+}
+
+
+/**
+ * Deliver a loaded extension to a loaded point at the given index.
+ *
+ * Errors are reported and rethrown.
+ */
+function deliverMatch(registry: IRegistryData, pRecord: IPointRecord,
+                      eRecord: IExtensionRecord, index: number): void {
+  let id = eRecord.spec.id;
+  let delivered = pRecord.delivered;
+  let extension = pairExtension(eRecord, pRecord.spec.id);
+  try {
+    pRecord.value.add(extension, index);
+    delivered.splice(index, 0, id);
+    pRecord.list.insert(index, extension);
+  } catch (err) {
+    let source = pointSource(pRecord.spec);
+    source.extension = id;
+    let message = `Error occured while adding extension '${id}'.`;
+    let phase = ErrorPhase.ReceiverAdd;
+    let error = reportError(registry, phase, source, message, err);
+    pRecord.error = error;
+    eRecord.error = error;
+    countFailure(registry, pRecord, phase);
+    throw err;
+  }
+}
+
+
+/**
+ * Sort extension ids by rank and by their ordering constraints.
+ *
+ * Extensions are ordered by ascending rank, with unranked extensions
+ * last, and then by id. The `before` and `after` constraints between
+ * the given extensions take precedence over the rank. Constraints on
+ * other extensions are ignored, and a cycle of constraints is broken
+ * by falling back to the rank order.
+ */
+function sortExtensions(registry: IRegistryData, ids: string[]): string[] {
+  // Lookup the spec for an extension id.
+  let specOf = (id: string) => {
+    let record = registry.extensions[id];
+    return record ? record.spec : null;
+  };
+
+  // Compute the rank of an extension id.
+  let rankOf = (id: string) => {
+    let spec = specOf(id);
+    return spec && typeof spec.rank === 'number' ? spec.rank : Infinity;
+  };
+
+  // Sort the ids by rank and id to create the base order.
+  let remaining = ids.slice().sort((a, b) => {
+    let ra = rankOf(a);
+    let rb = rankOf(b);
+    if (ra !== rb) return ra < rb ? -1 : 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  });
+
+  // Build the constraint graph as a map of id to preceding ids.
+  let preceding = createMap<string[]>();
+  for (let id of ids) {
+    preceding[id] = [];
+  }
+  for (let id of ids) {
+    let spec = specOf(id);
+    if (!spec) continue;
+    for (let other of spec.before || []) {
+      if (other in preceding) preceding[other].push(id);
+    }
+    for (let other of spec.after || []) {
+      if (other in preceding) preceding[id].push(other);
+    }
+  }
 
-    // Unregister the extension and mark it as disposed.
-    delete extensionRegistry[spec.id];
-    record.state = RecordState.Disposed;
+  // Repeatedly take the first id with no pending predecessors.
+  let result: string[] = [];
+  while (remaining.length > 0) {
+    let i = 0;
+    for (; i < remaining.length; ++i) {
+      let pending = preceding[remaining[i]].some(other => {
+        return remaining.indexOf(other) !== -1;
+      });
+      if (!pending) break;
+    }
+    if (i === remaining.length) i = 0;
+    result.push(remaining[i]);
+    remaining.splice(i, 1);
+  }
+  return result;
+}
 
-  });
 
-  // Update the record loading state.
-  record.promise = promise;
-  record.state = RecordState.Loading;
+/**
+ * Order extension ids by their strength under the `'rank'` policy.
+ *
+ * A higher rank is stronger, and an unranked extension is the weakest.
+ * Extensions of equal strength keep their given order.
+ */
+function sortByStrength(registry: IRegistryData, ids: string[]): string[] {
+  // Compute the strength of an extension id.
+  let strengthOf = (id: string) => {
+    let record = registry.extensions[id];
+    let rank = record ? record.spec.rank : void 0;
+    return typeof rank === 'number' ? rank : -Infinity;
+  };
 
-  // Return the new loader promise.
-  return promise;
+  // Sort the ids by descending strength, then by their given order.
+  let entries = ids.map((id, index) => ({ id, index, strength: strengthOf(id) }));
+  entries.sort((a, b) => {
+    if (a.strength !== b.strength) return a.strength > b.strength ? -1 : 1;
+    return a.index - b.index;
+  });
+  return entries.map(entry => entry.id);
 }
 
 
 /**
- * Dispose of the extension record with the specified id.
+ * Validate an extension against the schemas of its point.
+ *
+ * An invalid extension is reported and an error is thrown.
  */
-function disposeExtension(id: string): void {
-  // Do nothing if the id is not registered.
-  if (!(id in extensionRegistry)) {
+function validateMatch(registry: IRegistryData, pRecord: IPointRecord,
+                       eRecord: IExtensionRecord): void {
+  let schema = pRecord.spec.schema;
+  if (!schema) {
+    return;
+  }
+  let extension = eRecord.value;
+  let problem = (
+    validateJSON(extension.data, schema.data, 'data', pRecord.spec.patterns) ||
+    validateJSON(extension.config, schema.config, 'config', pRecord.spec.patterns)
+  );
+  if (!problem) {
     return;
   }
+  let id = eRecord.spec.id;
+  let err = new Error(`Extension '${id}' is invalid: ${problem}`);
+  let source = pointSource(pRecord.spec);
+  source.extension = id;
+  let phase = ErrorPhase.ValidateData;
+  eRecord.error = reportError(registry, phase, source, err.message, err);
+  throw err;
+}
 
-  // Delete the registration record.
-  let record = extensionRegistry[id];
-  delete extensionRegistry[id];
 
-  // Do nothing if the record is disposed or unloaded.
-  if (record.state === RecordState.Disposed ||
-      record.state === RecordState.Unloaded) {
+/**
+ * Remove a delivered extension from a point record.
+ *
+ * This is a no-op if the extension was not delivered to the point.
+ *
+ * The extension is always removed from the record. An error thrown
+ * by the receiver is reported, but is not propagated, so a failing
+ * receiver cannot interrupt a disposal.
+ */
+function removeDelivered(registry: IRegistryData, pRecord: IPointRecord, id: string): void {
+  let i = pRecord.delivered.indexOf(id);
+  if (i === -1) {
     return;
   }
-
-  // If the record is loading, mark it as disposed. The loader
-  // will check for this condition and handle it on completion.
-  if (record.state === RecordState.Loading) {
-    record.state = RecordState.Disposed;
+  pRecord.delivered.splice(i, 1);
+  pRecord.list.remove(i);
+  if (pRecord.quarantined) {
     return;
   }
+  try {
+    pRecord.value.remove(id);
+  } catch (err) {
+    let source = pointSource(pRecord.spec);
+    source.extension = id;
+    let message = `Error occured while removing extension '${id}'.`;
+    let phase = ErrorPhase.ReceiverRemove;
+    pRecord.error = reportError(registry, phase, source, message, err);
+    countFailure(registry, pRecord, phase);
+  }
+}
 
-  // Remove the extension from any matching extension point.
-  let other = pointRegistry[record.spec.point];
-  if (other && other.value) other.value.remove(id);
 
-  // Dispose of the extension.
-  record.state = RecordState.Disposed;
-  record.value.dispose();
+/**
+ * Count a receiver failure for a point record.
+ *
+ * The point is quarantined once the failures reach the quarantine
+ * limit of the registry. The quarantine is reported for the phase
+ * of the failure which triggered it.
+ */
+function countFailure(registry: IRegistryData, pRecord: IPointRecord, phase: ErrorPhase): void {
+  pRecord.failures++;
+  let limit = registry.quarantine;
+  if (pRecord.quarantined || limit <= 0 || pRecord.failures < limit) {
+    return;
+  }
+  pRecord.quarantined = true;
+  let id = pRecord.spec.id;
+  let message = `Extension point '${id}' was quarantined after ${limit} failures.`;
+  let err = new Error(message);
+  pRecord.error = reportError(registry, phase, pointSource(pRecord.spec), message, err);
 }
 
 
 //-----------------------------------------------------------------------------
-// Extension Point Implementation
+// Activation
 //-----------------------------------------------------------------------------
 
 /**
- * A concrete implementation of `IExtensionPoint`.
+ * Test whether a record with the given activation policy is active.
+ *
+ * An `'eager'` or missing policy is always active. An event policy is
+ * active once its event has been emitted. A `'lazy'` policy is never
+ * active until the record is explicitly activated.
  */
-class ExtensionPoint implements IExtensionPoint {
-  /**
-   * Create a new extension point from a spec and receiver.
-   *
-   * @param spec - The specification for the extension point.
-   *
-   * @param receiver - The receiver for the extension point, or `null`.
-   */
-  static create(spec: IPointSpec, receiver: IReceiver): ExtensionPoint {
-    return new ExtensionPoint(spec.id, receiver);
+function isActivated(registry: IRegistryData, policy: string): boolean {
+  if (!policy || policy === 'eager') {
+    return true;
+  }
+  if (policy.indexOf(EVENT_PREFIX) === 0) {
+    return policy.slice(EVENT_PREFIX.length) in registry.events;
   }
+  return false;
+}
 
-  /**
-   * Construct a new extension point.
-   *
-   * @param id - The globally unique id of the extension point.
-   *
-   * @param receiver - The receiver for the extension point, or `null`.
-   */
-  constructor(id: string, receiver: IReceiver) {
-    this._id = id;
-    this._receiver = receiver || null;
+
+/**
+ * Test whether a value is a valid activation policy.
+ */
+function isActivationPolicy(value: any): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  if (value === 'eager' || value === 'lazy') {
+    return true;
   }
+  let event = value.indexOf(EVENT_PREFIX) === 0;
+  return event && value.length > EVENT_PREFIX.length;
+}
 
-  /**
-   * Dispose of the resources held by the extension point.
-   */
-  dispose(): void {
-    if (this._disposed) {
-      return;
+
+/**
+ * The prefix for an activation policy which names an event.
+ */
+const EVENT_PREFIX = 'event:';
+
+
+/**
+ * Activate a point record and load it along with its extensions.
+ *
+ * Unlike a match, an activated point is loaded even when there are no
+ * extensions to connect, so that its receiver is ready for later ones.
+ *
+ * The returned promise resolves once the point is loaded and connected
+ * to its active extensions.
+ */
+function activatePointRecord(registry: IRegistryData, pRecord: IPointRecord): Promise<void> {
+  pRecord.active = true;
+  let p1 = loadPoint(registry, pRecord);
+  let p2 = loadMatchingExtensions(registry, pRecord);
+  return settleAll([p1, p2]);
+}
+
+
+/**
+ * Activate the records which are waiting for the given event.
+ *
+ * The returned promise resolves once the newly activated records are
+ * loaded and connected.
+ */
+function activateEvent(registry: IRegistryData, event: string): Promise<void> {
+  // Record the event so that later registrations are active.
+  registry.events[event] = true;
+
+  // Collect the records which are waiting for the event.
+  let policy = EVENT_PREFIX + event;
+  let points: IPointRecord[] = [];
+  let extensions: IExtensionRecord[] = [];
+  for (let key in registry.points) {
+    let pRecord = registry.points[key];
+    if (!pRecord.active && pRecord.spec.activation === policy) {
+      points.push(pRecord);
     }
-    this._disposed = true;
-    let temp = this._receiver;
-    this._receiver = null;
-    safeDispose(temp);
   }
-
-  /**
-   * Test whether the extension point has been disposed.
-   */
-  get isDisposed(): boolean {
-    return this._disposed;
+  for (let key in registry.extensions) {
+    let eRecord = registry.extensions[key];
+    if (!eRecord.active && eRecord.spec.activation === policy) {
+      extensions.push(eRecord);
+    }
   }
 
-  /**
-   * The globally unique id of the extension point.
-   */
-  get id(): string {
-    return this._id;
+  // Mark the extensions active before loading the points, so
+  // each activated point will pick up its activated extensions.
+  for (let eRecord of extensions) {
+    eRecord.active = true;
   }
 
-  /**
-   * Add an extension to the extension point.
-   */
-  add(extension: IExtension): void {
-    if (this._receiver) this._receiver.add(extension);
+  // Load and connect the activated records.
+  let promises: Promise<void>[] = [];
+  for (let pRecord of points) {
+    promises.push(activatePointRecord(registry, pRecord));
   }
-
-  /**
-   * Remove an extension from the extension point.
-   */
-  remove(id: string): void {
-    if (this._receiver) this._receiver.remove(id);
+  for (let eRecord of extensions) {
+    promises.push(loadMatchingPoint(registry, eRecord));
   }
-
-  private _id: string;
-  private _disposed = false;
-  private _receiver: IReceiver;
+  return settleAll(promises);
 }
 
 
+//-----------------------------------------------------------------------------
+// Service Implementation
+//-----------------------------------------------------------------------------
+
 /**
- * An object which provides the specification for an extension point.
+ * An object which provides the specification for a service.
  */
-interface IPointSpec {
+interface IServiceSpec {
   /**
-   * The globally unique id of the extension point.
+   * The globally unique id of the service.
    */
   id: string;
 
   /**
-   * The name of the plugin which owns the point.
+   * The name of the plugin which provides the service.
    */
   plugin?: string;
 
   /**
-   * The relative path to the extension point main module.
+   * The relative path to the service main module.
    */
   main?: string;
 
   /**
-   * The name of the factory function for the extension point.
+   * The name of the factory function for the service.
    */
   factory?: string;
 }
 
 
 /**
- * A registration record for an extension point.
+ * A registration record for a service.
  */
-interface IPointRecord {
+interface IServiceRecord {
   /**
    * The life cycle state of the record.
    */
   state: RecordState;
 
   /**
-   * The specification of the extension point.
+   * The specification of the service.
    */
-  spec: IPointSpec;
+  spec: IServiceSpec;
 
   /**
-   * The loaded extension point object, or `null` if not yet loaded.
+   * The loaded service object, or `null` if not yet loaded.
    */
-  value: IExtensionPoint;
+  value: any;
 
   /**
    * The loader promise for the record, or `null` if not loading.
    */
   promise: Promise<void>;
-}
 
+  /**
+   * The disposal token for the record, or `null` if never loaded.
+   */
+  token: DisposalToken;
 
-/**
- * A mapping of extension point id to extension point record.
- */
-var pointRegistry = createMap<IPointRecord>();
+  /**
+   * The last error reported for the record, or `null`.
+   */
+  error: IPluginError;
+
+  /**
+   * The time at which the record started loading, or `null`.
+   */
+  loadStarted: number;
+
+  /**
+   * The time at which the record finished loading, or `null`.
+   */
+  loadFinished: number;
+}
 
 
 /**
- * Register an extension point spec and load any matching extensions.
+ * Register a service spec with the registry.
  *
- * If the point id is already registered, an error will be logged
+ * If the service id is already registered, an error will be reported
  * and the registration will be ignored.
+ *
+ * The service is not loaded until it is first resolved.
  */
-function registerPointSpec(spec: IPointSpec): void {
-  // Log an error if the extension point id is already registered.
-  if (spec.id in pointRegistry) {
-    console.error(`Extension point '${spec.id}' is already registered.`);
-    return;
+function registerServiceSpec(registry: IRegistryData, spec: IServiceSpec): Promise<void> {
+  // Report an error if the service id is already registered.
+  if (spec.id in registry.services) {
+    let err = new Error(`Service '${spec.id}' is already registered.`);
+    let source = serviceSource(spec);
+    reportError(registry, ErrorPhase.ValidateSpec, source, err.message, err);
+    return Promise.reject(err);
   }
 
-  // Create a new unloaded record for the point.
-  let record: IPointRecord = {
+  // Create a new unloaded record for the service.
+  let record: IServiceRecord = {
     state: RecordState.Unloaded,
     spec: spec,
     value: null,
     promise: null,
+    token: null,
+    error: null,
+    loadStarted: null,
+    loadFinished: null,
   };
 
-  // Add the record to the point registry.
-  pointRegistry[spec.id] = record;
+  // Add the record to the service registry.
+  registry.services[spec.id] = record;
+  notifyChanged(registry, RecordType.Service, spec.id, spec.plugin, record.state);
 
-  // Load any matching extensions.
-  loadMatchingExtensions(record);
+  // The service is loaded on demand.
+  return Promise.resolve<void>();
 }
 
 
 /**
- * Ensure an extension point record is fully loaded.
+ * Resolve the services consumed by a plugin record.
+ *
+ * The returned promise rejects if a consumed service is not registered
+ * or fails to load.
+ */
+function resolveConsumes(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  let promises = record.spec.consumes.map(id => {
+    if (!(id in registry.services)) {
+      let msg = `Plugin '${record.name}' consumes '${id}' which is not provided.`;
+      return Promise.reject(new Error(msg));
+    }
+    return resolveServiceRecord(registry, id).then(() => { });
+  });
+  return settleAll(promises);
+}
+
+
+/**
+ * Resolve the service with the given id.
+ *
+ * The returned promise resolves with the loaded service object.
+ */
+function resolveServiceRecord(registry: IRegistryData, id: string): Promise<any> {
+  // Reject if the service is not registered.
+  let record = registry.services[id];
+  if (!record) {
+    return Promise.reject(new Error(`Service '${id}' is not registered.`));
+  }
+
+  // Load the service and verify the record was not disposed.
+  return loadService(registry, record).then(() => {
+    if (record.state !== RecordState.Loaded) {
+      throw new Error(`Service '${id}' was disposed while loading.`);
+    }
+    return record.value;
+  });
+}
+
+
+/**
+ * Ensure a service record is fully loaded.
  *
  * It is possible for the the record to be disposed before the loader
  * promise is resolved, so the caller must validate the record state
  * after resolving the returned promise.
+ *
+ * The returned promise rejects with the original error if the record
+ * fails to load.
  */
-function loadPoint(record: IPointRecord): Promise<void> {
-  // If the record is disposed or loaded, there is nothing to do.
-  if (record.state === RecordState.Disposed ||
-      record.state === RecordState.Loaded) {
+function loadService(registry: IRegistryData, record: IServiceRecord): Promise<void> {
+  // If the record is loaded or finalized, there is nothing to do.
+  if (record.state === RecordState.Loaded ||
+      record.state === RecordState.Disposed ||
+      record.state === RecordState.Failed) {
     return Promise.resolve<void>();
   }
 
@@ -1216,67 +7696,85 @@ function loadPoint(record: IPointRecord): Promise<void> {
 
   // Setup local variables.
   let spec = record.spec;
+  let phase = ErrorPhase.ImportMain;
+
+  // Create the disposal token for the loaded service.
+  let token = record.token = new DisposalToken();
 
   // Kick off the loader promise chain.
   let promise = Promise.resolve().then(() => {
 
-    // Load the main module for the extension point. Points which
-    // are manually registered will always have a null main module.
-    return spec.main ? System.import(`${spec.plugin}/${spec.main}`) : null;
+    // Load the main module for the service.
+    return importMain(registry, spec.plugin, spec.main, token);
 
   }).then(main => {
 
-    // If there is no factory, skip to the next step.
-    if (!main || !spec.factory) {
-      return null;
-    }
+    // Update the loading phase.
+    phase = ErrorPhase.RunFactory;
 
     // Throw an error if the factory is not a function.
-    let factory = main[spec.factory];
+    let factory = main && main[spec.factory];
     if (typeof factory !== 'function') {
-      throw new Error(`Extension point '${spec.id}' has invalid factory.`);
+      throw new Error(`Service '${spec.id}' has invalid factory.`);
     }
 
-    // Load the result of the factory.
-    return factory();
+    // Create the context for the factory.
+    let context: IFactoryContext = {
+      id: spec.id,
+      plugin: spec.plugin,
+      logger: createLogger(spec.id),
+      token: record.token,
+      registry: registry.owner,
+    };
 
-  }).then(receiver => {
+    // Load the result of the factory.
+    return runFactory(registry, serviceSource(spec), token, () => factory(context));
 
-    // Throw an error if the receiver interface is invalid.
-    if (receiver && !isReceiver(receiver)) {
-      throw new Error(`Extension point '${spec.id}' has invalid receiver.`);
-    }
+  }).then(service => {
 
     // Clear the loader promise.
     record.promise = null;
 
     // If the record was disposed before reaching this point, release
-    // the receiver. Otherwise, create the point and update the record.
+    // the service. Otherwise, update the record with the service.
     if (record.state === RecordState.Disposed) {
-      safeDispose(receiver);
+      safeDispose(registry, service, serviceSource(spec));
     } else {
-      record.value = ExtensionPoint.create(spec, receiver);
-      record.state = RecordState.Loaded;
+      record.value = service;
+      setServiceState(registry, record, RecordState.Loaded);
     }
 
   }).catch(err => {
 
-    // If an error occurs while loading, log it to the console.
-    console.error(`Error occured while loading extension point '${spec.id}'.`);
-    console.error(err);
-
     // Clear the loader promise.
     record.promise = null;
 
-    // Unregister the extension point and mark it as disposed.
-    delete pointRegistry[spec.id];
-    record.state = RecordState.Disposed;
+    // A load which was cancelled by a disposal is not an error.
+    if (isCancelError(err)) {
+      return;
+    }
+
+    // If an error occurs while loading, report it to the handler.
+    let message = `Error occured while loading service '${spec.id}'.`;
+    let source = serviceSource(spec);
+    record.error = reportError(registry, phase, source, message, err);
+
+    // Unregister the service and mark it as failed. A record which
+    // was disposed while loading has already been unregistered.
+    if (record.state !== RecordState.Disposed) {
+      delete registry.services[spec.id];
+      setServiceState(registry, record, RecordState.Failed);
+      safeDispose(registry, record.token, source);
+    }
+
+    // Propagate the error to the caller.
+    throw err;
 
   });
 
   // Update the record loading state.
   record.promise = promise;
-  record.state = RecordState.Loading;
+  setServiceState(registry, record, RecordState.Loading);
 
   // Return the new loader promise.
   return promise;
@@ -1284,72 +7782,201 @@ function loadPoint(record: IPointRecord): Promise<void> {
 
 
 /**
- * Dispose of the extension point record with the specified id.
+ * Dispose of the service record with the specified id.
+ *
+ * The returned promise resolves once a pending load has settled and
+ * the service has finished its disposal. It never rejects.
  */
-function disposePoint(id: string): void {
+function disposeService(registry: IRegistryData, id: string): Promise<void> {
   // Do nothing if the id is not registered.
-  if (!(id in pointRegistry)) {
-    return;
+  if (!(id in registry.services)) {
+    return Promise.resolve<void>();
   }
 
   // Delete the registration record.
-  let record = pointRegistry[id];
-  delete pointRegistry[id];
-
-  // Do nothing if the record is disposed or unloaded.
-  if (record.state === RecordState.Disposed ||
-      record.state === RecordState.Unloaded) {
-    return;
+  let record = registry.services[id];
+  delete registry.services[id];
+
+  // Signal the disposal to the service factory.
+  let source = serviceSource(record.spec);
+  safeDispose(registry, record.token, source);
+
+  // If the record is not loaded, mark it as disposed. A loading
+  // record will be handled by the loader on completion.
+  if (record.state !== RecordState.Loaded) {
+    setServiceState(registry, record, RecordState.Disposed);
+    return whenSettled(record);
   }
 
-  // If the record is loading, mark it as disposed. The loader
-  // will check for this condition and handle it on completion.
-  if (record.state === RecordState.Loading) {
-    record.state = RecordState.Disposed;
-    return;
+  // Dispose of the service.
+  setServiceState(registry, record, RecordState.Disposed);
+  return safeDispose(registry, record.value, source);
+}
+
+
+/**
+ * Dispose of the services which are provided by a plugin record.
+ *
+ * Services with the same id which belong to another plugin are
+ * left untouched.
+ *
+ * The returned promise resolves once the services are disposed.
+ */
+function disposePluginServices(registry: IRegistryData, record: IPluginRecord): Promise<void> {
+  let promises: Promise<void>[] = [];
+  if (!record.spec) {
+    return settleAll(promises);
   }
+  for (let spec of record.spec.provides) {
+    let other = registry.services[spec.id];
+    if (other && other.spec === spec) promises.push(disposeService(registry, spec.id));
+  }
+  return settleAll(promises);
+}
 
-  // Dispose of the extension point.
-  record.state = RecordState.Disposed;
-  record.value.dispose();
+
+/**
+ * Set the state of a service record and notify the change listeners.
+ */
+function setServiceState(registry: IRegistryData, record: IServiceRecord, state: RecordState): void {
+  record.state = state;
+  updateLoadTimes(record, state);
+  let spec = record.spec;
+  notifyChanged(registry, RecordType.Service, spec.id, spec.plugin || null, state);
+}
+
+
+/**
+ * Create an error source for a service spec.
+ */
+function serviceSource(spec: IServiceSpec): IErrorSource {
+  let plugin = spec.plugin || null;
+  return { plugin, extension: null, point: null, service: spec.id };
+}
+
+
+/**
+ * Get the service id for a service token or id.
+ */
+function serviceId(token: ServiceToken<any> | string): string {
+  return typeof token === 'string' ? token : token.id;
 }
 
 
 //-----------------------------------------------------------------------------
-// Extension Point Matching
+// Plugin Discovery
 //-----------------------------------------------------------------------------
 
 /**
- * Load all matching extensions for the given point record.
+ * Discover the names of the plugins which match the options.
+ *
+ * The returned promise rejects if the plugins cannot be discovered. It
+ * resolves to an empty array if the token is disposed while a catalog
+ * file is loading.
  */
-function loadMatchingExtensions(pRecord: IPointRecord): void {
-  for (let key in extensionRegistry) {
-    let eRecord = extensionRegistry[key];
-    if (eRecord.spec.point === pRecord.spec.id) {
-      loadMatch(pRecord, eRecord);
+function discoverNames(registry: IRegistryData, options: IDiscoveryOptions,
+                       token: IDisposalToken): Promise<string[]> {
+  // Kick off the promise discovery chain.
+  return Promise.resolve().then(() => {
+
+    // Load the catalog file, if a path is given.
+    if (typeof options.catalog === 'string') {
+      return loadCatalog(registry, options.catalog, token).then(createCatalogNames);
+    }
+
+    // Load the plugin names from the catalog, if given.
+    if (options.catalog !== void 0) {
+      return Promise.resolve(options.catalog).then(createCatalogNames);
+    }
+
+    // Otherwise, list the plugin names with the loader.
+    if (!registry.loader.listPlugins) {
+      throw new Error('Module loader cannot list plugins.');
+    }
+    return registry.loader.listPlugins();
+
+  }).then(names => {
+
+    // Filter the names with the pattern and name lists.
+    let regex = options.pattern ? createPattern(options.pattern) : null;
+    let enabled = options.enabled || null;
+    let disabled = options.disabled || [];
+    return names.filter((name, i) => {
+      if (names.indexOf(name) !== i) return false;
+      if (regex && !regex.test(name)) return false;
+      if (enabled && enabled.indexOf(name) === -1) return false;
+      return disabled.indexOf(name) === -1;
+    });
+
+  }).catch((err): string[] => {
+
+    // A load which was cancelled by a disposal is not an error.
+    if (isCancelError(err)) {
+      return [];
     }
+
+    // If an error occurs while discovering, report it to the handler.
+    let source: IErrorSource = {
+      plugin: null, extension: null, point: null, service: null
+    };
+    let message = 'Error occured while discovering plugins.';
+    reportError(registry, ErrorPhase.Discovery, source, message, err);
+
+    // Propagate the error to the caller.
+    throw err;
+
+  });
+}
+
+
+/**
+ * Load a JSON catalog file with the module loader.
+ *
+ * The path has the form `<package>/<path>`. The load is subject to the
+ * manifest timeout and the retry options of the registry.
+ */
+function loadCatalog(registry: IRegistryData, path: string, token: IDisposalToken): Promise<any> {
+  let i = path.indexOf('/');
+  if (i <= 0 || i === path.length - 1) {
+    throw new Error(`Plugin catalog path '${path}' must have the form '<package>/<path>'.`);
   }
+  let pkg = path.slice(0, i);
+  let file = path.slice(i + 1);
+  let what = `catalog '${path}'`;
+  return fetchResource(registry, token, registry.timeouts.manifest, what, () => {
+    return registry.loader.importData(pkg, file, token);
+  });
 }
 
 
 /**
- * Load the matching extension point for the given extension record.
+ * Create the array of plugin names from parsed catalog data.
+ *
+ * This will throw an error if the catalog is invalid.
  */
-function loadMatchingPoint(eRecord: IExtensionRecord): void {
-  let pRecord = pointRegistry[eRecord.spec.point];
-  if (pRecord) loadMatch(pRecord, eRecord);
+function createCatalogNames(catalog: any): string[] {
+  let names = Array.isArray(catalog) ? catalog : catalog && catalog.plugins;
+  if (!Array.isArray(names)) {
+    throw new Error('Plugin catalog must list the plugin names.');
+  }
+  for (let name of names) {
+    if (typeof name !== 'string' || !name) {
+      throw new Error('Plugin catalog names must be non-empty strings.');
+    }
+  }
+  return names.slice();
 }
 
 
 /**
- * Load and connect the matching point and extension records.
+ * Create a regular expression for a name pattern.
+ *
+ * A `*` in the pattern matches any sequence of characters. All other
+ * characters are matched literally.
  */
-function loadMatch(pRecord: IPointRecord, eRecord: IExtensionRecord): void {
-  let p1 = loadPoint(pRecord);
-  let p2 = loadExtension(eRecord);
-  Promise.all([p1, p2]).then(() => {
-    let s1 = pRecord.state === RecordState.Loaded;
-    let s2 = eRecord.state === RecordState.Loaded;
-    if (s1 && s2) pRecord.value.add(eRecord.value);
+function createPattern(pattern: string): RegExp {
+  let parts = pattern.split('*').map(part => {
+    return part.replace(/[.+?^${}()|[\]\\\/]/g, '\\$&');
   });
+  return new RegExp(`^${parts.join('.*')}$`);
 }
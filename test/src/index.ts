@@ -10,8 +10,15 @@
 import expect = require('expect.js');
 
 import {
-  IExtension, IExtensionPoint, listExtensions, listExtensionPoints,
-  listPlugins, registerExtension, registerExtensionPoint, registerPlugin
+  ErrorPhase, ICardinality, IDisposalToken, IExtension, IExtensionContext,
+  IExtensionPoint, IFactoryContext, ILoadTimeouts, IModuleLoader,
+  IPluginContext, IPluginError, IPointContext, IPointSchema, IReceiver,
+  IRegistration, IRegistryChange, IRegistryOptions, ITypedExtension,
+  ITypedExtensionPoint, LocalStorageStore, MapLoader, MemoryStore,
+  NativeLoader, PluginRegistry, PointToken, RecordState, RecordType,
+  ServiceToken, SystemLoader, listExtensions, listExtensionPoints,
+  listPlugins, onRegistryChanged, registerExtension, registerExtensionPoint,
+  registerPlugin, setErrorHandler
 } from '../../lib';
 
 
@@ -45,6 +52,213 @@ let point: IExtensionPoint = {
 }
 
 
+/**
+ * Create a map loader for the in-memory `alpha` plugin.
+ *
+ * The `log` array records the calls made to the alpha receiver.
+ */
+function createAlphaLoader(log: string[]): MapLoader {
+  return new MapLoader({
+    'alpha/package.json': {
+      name: 'alpha',
+      version: '1.0.0',
+      'phosphor-plugin': {
+        extensionPoints: [
+          { id: 'alpha:point', main: 'index.js', factory: 'createReceiver' }
+        ],
+        extensions: [
+          {
+            id: 'alpha:ext',
+            point: 'alpha:point',
+            main: 'index.js',
+            factory: 'createContrib',
+            data: 'data.json'
+          }
+        ]
+      }
+    },
+    'alpha/index.js': {
+      createReceiver: () => ({
+        add: (extension: IExtension) => {
+          log.push(`add ${extension.id} ${extension.item} ${extension.data.value}`);
+        },
+        remove: (id: string) => { log.push(`remove ${id}`); },
+        dispose: () => { log.push('dispose receiver'); }
+      }),
+      createContrib: () => ({
+        item: 'alpha-item',
+        dispose: () => { log.push('dispose contrib'); }
+      })
+    },
+    'alpha/data.json': { value: 42 }
+  });
+}
+
+
+/**
+ * The package manifest of an in-memory plugin.
+ */
+interface IPackageManifest {
+  name: string;
+  version: string;
+  'phosphor-plugin': IPluginManifest;
+}
+
+
+/**
+ * The `phosphor-plugin` field of an in-memory package manifest.
+ */
+interface IPluginManifest {
+  requires?: string[] | { [name: string]: string };
+  namespace?: string;
+  main?: string;
+  extensionPoints?: IPointManifest[];
+  extensions?: IExtensionManifest[];
+  provides?: IServiceManifest[];
+  consumes?: string[];
+}
+
+
+/**
+ * The optional fields of an extension point in an in-memory manifest.
+ */
+interface IPointOptions {
+  main?: string;
+  factory?: string;
+  activation?: string;
+  schema?: IPointSchema;
+  cardinality?: string | ICardinality;
+  conflict?: string;
+}
+
+
+/**
+ * An extension point in an in-memory package manifest.
+ */
+interface IPointManifest extends IPointOptions {
+  id: string;
+}
+
+
+/**
+ * The optional fields of an extension in an in-memory manifest.
+ */
+interface IExtensionOptions {
+  main?: string;
+  factory?: string;
+  data?: string;
+  config?: any;
+  activation?: string;
+  rank?: number;
+  before?: string | string[];
+  after?: string | string[];
+}
+
+
+/**
+ * An extension in an in-memory package manifest.
+ */
+interface IExtensionManifest extends IExtensionOptions {
+  id: string;
+  point: string | string[];
+}
+
+
+/**
+ * A service in an in-memory package manifest.
+ */
+interface IServiceManifest {
+  id: string;
+  main?: string;
+  factory?: string;
+}
+
+
+/**
+ * Create a package manifest for an in-memory plugin.
+ */
+function createManifest(name: string, version: string,
+                        plugin: IPluginManifest): IPackageManifest {
+  return { name: name, version: version, 'phosphor-plugin': plugin };
+}
+
+
+/**
+ * Create an extension point for an in-memory package manifest.
+ *
+ * The defined fields of the `options` are copied to a new point.
+ */
+function createPoint(id: string, options: IPointOptions = {}): IPointManifest {
+  let point: IPointManifest = { id: id };
+  if (options.main !== void 0) point.main = options.main;
+  if (options.factory !== void 0) point.factory = options.factory;
+  if (options.activation !== void 0) point.activation = options.activation;
+  if (options.schema !== void 0) point.schema = options.schema;
+  if (options.cardinality !== void 0) point.cardinality = options.cardinality;
+  if (options.conflict !== void 0) point.conflict = options.conflict;
+  return point;
+}
+
+
+/**
+ * Create an extension for an in-memory package manifest.
+ *
+ * The defined fields of the `options` are copied to a new extension.
+ */
+function createItem(id: string, point: string | string[],
+                    options: IExtensionOptions = {}): IExtensionManifest {
+  let item: IExtensionManifest = { id: id, point: point };
+  if (options.main !== void 0) item.main = options.main;
+  if (options.factory !== void 0) item.factory = options.factory;
+  if (options.data !== void 0) item.data = options.data;
+  if (options.config !== void 0) item.config = options.config;
+  if (options.activation !== void 0) item.activation = options.activation;
+  if (options.rank !== void 0) item.rank = options.rank;
+  if (options.before !== void 0) item.before = options.before;
+  if (options.after !== void 0) item.after = options.after;
+  return item;
+}
+
+
+/**
+ * Create a receiver which records its calls with a log function.
+ */
+function createLogReceiver(log: (message: string) => void): IReceiver {
+  return {
+    add: (extension: IExtension) => { log(`add ${extension.id}`); },
+    remove: (id: string) => { log(`remove ${id}`); }
+  };
+}
+
+
+/**
+ * Create a registry which records its reported errors.
+ */
+function createTestRegistry(options: IRegistryOptions, errors: IPluginError[]): PluginRegistry {
+  let registry = new PluginRegistry(options);
+  registry.setErrorHandler(error => { errors.push(error); });
+  return registry;
+}
+
+
+/**
+ * Create an error which is marked as a transient failure.
+ */
+function createTransientError(message: string): Error {
+  let err: any = new Error(message);
+  err.transient = true;
+  return err;
+}
+
+
+/**
+ * Create a promise which resolves to a value after a delay.
+ */
+function delayed<T>(value: T, ms: number): Promise<T> {
+  return new Promise<T>(resolve => { setTimeout(() => resolve(value), ms); });
+}
+
+
 /**
  * A function which computes successive unique ids.
  */
@@ -90,6 +304,37 @@ describe('phosphor-plugins', function () {
       disp.dispose();
     });
 
+    it('should resolve the ready promise once the plugin is wired', () => {
+      let fooDisp = registerPlugin('foo');
+      let barDisp = registerPlugin('bar');
+      return Promise.all([fooDisp.ready, barDisp.ready]).then(() => {
+        expect(listExtensionPoints()).to.eql(['my-foo:foo-point', 'my-bar:bar-point']);
+        expect(listExtensions()).to.eql(['my-bar:bar-ext-0', 'my-bar:bar-ext-1']);
+        fooDisp.dispose();
+        barDisp.dispose();
+      });
+    });
+
+    it('should reject the ready promise if the plugin fails to load', () => {
+      let disp = registerPlugin('does-not-exist');
+      return disp.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err).to.be.ok();
+        expect(err.message).to.not.be('should not resolve');
+        expect(listPlugins()).to.eql([]);
+        disp.dispose();
+      });
+    });
+
+    it('should resolve the ready promise if disposed while loading', () => {
+      let disp = registerPlugin('foo');
+      disp.dispose();
+      return disp.ready.then(() => {
+        expect(listExtensionPoints()).to.eql([]);
+      });
+    });
+
   });
 
   describe('listPlugins()', () => {
@@ -107,50 +352,47 @@ describe('phosphor-plugins', function () {
 
   describe('listExtensions()', () => {
 
-    it('should list the ids of the currently registered extensions', (done) => {
+    it('should list the ids of the currently registered extensions', () => {
       let fooDisp = registerPlugin('foo');
       let barDisp = registerPlugin('bar');
       expect(listExtensions()).to.eql([]);
-      setTimeout(() => {
+      return Promise.all([fooDisp.ready, barDisp.ready]).then(() => {
         expect(listExtensions()).to.eql(['my-bar:bar-ext-0', 'my-bar:bar-ext-1']);
         fooDisp.dispose();
         barDisp.dispose();
-        done();
-      }, 200);
+      });
     });
 
   });
 
   describe('listExtensionPoints()', () => {
 
-    it('should list the ids of the currently registered extension points', (done) => {
+    it('should list the ids of the currently registered extension points', () => {
       let fooDisp = registerPlugin('foo');
       let barDisp = registerPlugin('bar');
       expect(listExtensions()).to.eql([]);
-      setTimeout(() => {
+      return Promise.all([fooDisp.ready, barDisp.ready]).then(() => {
         expect(listExtensionPoints()).to.eql(['my-foo:foo-point', 'my-bar:bar-point']);
         fooDisp.dispose();
         barDisp.dispose();
-        done();
-      }, 200);
+      });
     });
 
   });
 
   describe('registerExtension()', () => {
 
-    it('should register an extension and connect the matching extension point', (done) => {
+    it('should register an extension and connect the matching extension point', () => {
       messages = [];
       let pointDisp = registerExtensionPoint(point);
       let ext = createExtension();
       let extDisp = registerExtension(ext);
-      setTimeout(() => {
+      return extDisp.ready.then(() => {
         let message = `Added ${ext.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         pointDisp.dispose();
         extDisp.dispose();
-        done();
-      }, 100);
+      });
     });
 
     it('should throw an error if the extension id is registered', () => {
@@ -161,52 +403,59 @@ describe('phosphor-plugins', function () {
       extDisp.dispose();
     });
 
-    it('should still trigger a register if the point is added later', (done) => {
+    it('should still trigger a register if the point is added later', () => {
       messages = [];
       let ext = createExtension();
       let extDisp = registerExtension(ext);
       let pointDisp = registerExtensionPoint(point);
-      setTimeout(() => {
+      return pointDisp.ready.then(() => {
         let message = `Added ${ext.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         pointDisp.dispose();
         extDisp.dispose();
-        done();
-      }, 100);
+      });
     });
 
-    it('should dispose of resources when the extension is disposed', (done) => {
+    it('should dispose of resources when the extension is disposed', () => {
       messages = [];
       let pointDisp = registerExtensionPoint(point);
       let ext = createExtension();
       let ext0Disp = registerExtension(ext);
-      setTimeout(() => {
+      return ext0Disp.ready.then(() => {
         ext0Disp.dispose();
         let message = `Disposed ${ext.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         message = `Removed ${ext.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         pointDisp.dispose();
-        done();
-      }, 100);
+      });
+    });
+
+    it('should resolve the ready promise if no point is registered', () => {
+      messages = [];
+      let ext = createExtension();
+      let extDisp = registerExtension(ext);
+      return extDisp.ready.then(() => {
+        expect(messages).to.eql([]);
+        extDisp.dispose();
+      });
     });
 
   });
 
   describe('registerExtensionPoint()', () => {
 
-    it('should register an extension point and connect the matching extensions', (done) => {
+    it('should register an extension point and connect the matching extensions', () => {
       messages = [];
       let ext = createExtension();
       let extDisp = registerExtension(ext);
       let pointDisp = registerExtensionPoint(point);
-      setTimeout(() => {
+      return pointDisp.ready.then(() => {
         let message = `Added ${ext.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         pointDisp.dispose();
         extDisp.dispose();
-        done();
-      }, 100);
+      });
     });
 
     it('should throw an error if the extension point id is registered', () => {
@@ -216,28 +465,27 @@ describe('phosphor-plugins', function () {
       disp.dispose();
     });
 
-    it('should still trigger a register if the extension is added later', (done) => {
+    it('should still trigger a register if the extension is added later', () => {
       messages = [];
       let pointDisp = registerExtensionPoint(point);
       let ext = createExtension();
       let extDisp = registerExtension(ext);
-      setTimeout(() => {
+      return extDisp.ready.then(() => {
         let message = `Added ${ext.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         pointDisp.dispose();
         extDisp.dispose();
-        done();
-      }, 100);
+      });
     });
 
-    it('should accept more than one extension', (done) => {
+    it('should accept more than one extension', () => {
       messages = [];
       let pointDisp = registerExtensionPoint(point);
       let ext0 = createExtension();
       let ext0Disp = registerExtension(ext0);
       let ext1 = createExtension();
       let ext1Disp = registerExtension(ext1);
-      setTimeout(() => {
+      return Promise.all([ext0Disp.ready, ext1Disp.ready]).then(() => {
         let message = `Added ${ext0.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         message = `Added ${ext1.id}`;
@@ -249,27 +497,2987 @@ describe('phosphor-plugins', function () {
         message = `Removed ${ext1.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         pointDisp.dispose();
-        done();
-      }, 100);
+      });
     });
 
-    it('should dispose of resources when the point is disposed', (done) => {
+    it('should dispose of resources when the point is disposed', () => {
       messages = [];
       let pointDisp = registerExtensionPoint(point);
       let ext = createExtension();
       let ext0Disp = registerExtension(ext);
-      setTimeout(() => {
+      return ext0Disp.ready.then(() => {
         pointDisp.dispose();
         let message = `Disposed ${point.id}`;
         expect(messages.indexOf(message)).to.not.be(-1);
         ext0Disp.dispose();
-        message = `Removed ${ext.id}`;
-        expect(messages.indexOf(message)).to.be(-1);
-        done();
-      }, 100);
+        expect(messages).to.eql([
+          `Added ${ext.id}`,
+          `Removed ${ext.id}`,
+          `Disposed ${point.id}`,
+          `Disposed ${ext.id}`
+        ]);
+      });
+    });
+
+    it('should remove the delivered extensions in reverse order', () => {
+      messages = [];
+      let pointDisp = registerExtensionPoint(point);
+      let ext0 = createExtension();
+      let ext1 = createExtension();
+      let ext0Disp = registerExtension(ext0);
+      let ext1Disp = registerExtension(ext1);
+      return Promise.all([ext0Disp.ready, ext1Disp.ready]).then(() => {
+        messages = [];
+        pointDisp.dispose();
+        expect(messages).to.eql([
+          `Removed ${ext1.id}`,
+          `Removed ${ext0.id}`,
+          `Disposed ${point.id}`
+        ]);
+        ext0Disp.dispose();
+        ext1Disp.dispose();
+      });
+    });
+
+    it('should balance additions and removals when re-registered', () => {
+      messages = [];
+      let ext = createExtension();
+      let extDisp = registerExtension(ext);
+      let pointDisp = registerExtensionPoint(point);
+      return pointDisp.ready.then(() => {
+        pointDisp.dispose();
+        pointDisp = registerExtensionPoint(point);
+        return pointDisp.ready;
+      }).then(() => {
+        extDisp.dispose();
+        pointDisp.dispose();
+        expect(messages).to.eql([
+          `Added ${ext.id}`,
+          `Removed ${ext.id}`,
+          `Disposed ${point.id}`,
+          `Added ${ext.id}`,
+          `Removed ${ext.id}`,
+          `Disposed ${ext.id}`,
+          `Disposed ${point.id}`
+        ]);
+      });
     });
 
   });
 
-});
+  describe('setErrorHandler()', () => {
+
+    let errors: IPluginError[] = [];
+
+    beforeEach(() => {
+      errors = [];
+      setErrorHandler(error => { errors.push(error); });
+    });
+
+    afterEach(() => {
+      setErrorHandler(null);
+    });
+
+    it('should report a plugin which fails to load', () => {
+      let disp = registerPlugin('does-not-exist');
+      return disp.ready.catch(err => {
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.FetchManifest);
+        expect(errors[0].plugin).to.be('does-not-exist');
+        expect(errors[0].extension).to.be(null);
+        expect(errors[0].point).to.be(null);
+        expect(errors[0].cause).to.be(err);
+        disp.dispose();
+      });
+    });
+
+    it('should report a receiver which fails to add an extension', () => {
+      let badPoint: IExtensionPoint = {
+        id: POINT,
+        add: extension => { throw new Error('add failed'); },
+        remove: id => { },
+        isDisposed: false,
+        dispose: () => { }
+      };
+      let pointDisp = registerExtensionPoint(badPoint);
+      let ext = createExtension();
+      let extDisp = registerExtension(ext);
+      return extDisp.ready.catch(err => {
+        expect(err.message).to.be('add failed');
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.ReceiverAdd);
+        expect(errors[0].extension).to.be(ext.id);
+        expect(errors[0].point).to.be(POINT);
+        expect(errors[0].cause).to.be(err);
+        pointDisp.dispose();
+        extDisp.dispose();
+      });
+    });
+
+    it('should report an extension which fails to dispose', () => {
+      let ext = createExtension();
+      ext.dispose = () => { throw new Error('dispose failed'); };
+      let extDisp = registerExtension(ext);
+      extDisp.dispose();
+      expect(errors.length).to.be(1);
+      expect(errors[0].phase).to.be(ErrorPhase.Dispose);
+      expect(errors[0].extension).to.be(ext.id);
+      expect(errors[0].cause.message).to.be('dispose failed');
+    });
+
+    it('should restore the default handler when given `null`', () => {
+      setErrorHandler(null);
+      let ext = createExtension();
+      ext.dispose = () => { throw new Error('dispose failed'); };
+      let extDisp = registerExtension(ext);
+      extDisp.dispose();
+      expect(errors).to.eql([]);
+    });
+
+  });
+
+  describe('onRegistryChanged()', () => {
+
+    let changes: string[] = [];
+
+    function logChange(change: IRegistryChange): void {
+      let type = RecordType[change.type];
+      let state = RecordState[change.state];
+      changes.push(`${type} ${change.id} ${state}`);
+    }
+
+    beforeEach(() => {
+      changes = [];
+    });
+
+    it('should report the life cycle of a plugin and its records', () => {
+      let listener = onRegistryChanged(logChange);
+      let disp = registerPlugin('foo');
+      return disp.ready.then(() => {
+        disp.dispose();
+        listener.dispose();
+        expect(changes).to.eql([
+          'Plugin foo Unloaded',
+          'Plugin foo Loading',
+          'Plugin foo Loaded',
+          'Point my-foo:foo-point Unloaded',
+          'Plugin foo Disposed',
+          'Point my-foo:foo-point Disposed'
+        ]);
+      });
+    });
+
+    it('should report the plugin which owns a record', () => {
+      let plugins: string[] = [];
+      let listener = onRegistryChanged(change => {
+        if (change.type === RecordType.Extension) plugins.push(change.plugin);
+      });
+      let fooDisp = registerPlugin('foo');
+      let barDisp = registerPlugin('bar');
+      return Promise.all([fooDisp.ready, barDisp.ready]).then(() => {
+        listener.dispose();
+        fooDisp.dispose();
+        barDisp.dispose();
+        expect(plugins.length).to.be.above(0);
+        expect(plugins.every(name => name === 'bar')).to.be(true);
+      });
+    });
+
+    it('should report a plugin which fails to load', () => {
+      setErrorHandler(() => { });
+      let listener = onRegistryChanged(logChange);
+      let disp = registerPlugin('does-not-exist');
+      return disp.ready.catch(() => {
+        listener.dispose();
+        setErrorHandler(null);
+        expect(changes).to.eql([
+          'Plugin does-not-exist Unloaded',
+          'Plugin does-not-exist Loading',
+          'Plugin does-not-exist Failed'
+        ]);
+        expect(listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should report dynamically registered records as loaded', () => {
+      let listener = onRegistryChanged(logChange);
+      let ext = createExtension();
+      let extDisp = registerExtension(ext);
+      extDisp.dispose();
+      listener.dispose();
+      expect(changes).to.eql([
+        `Extension ${ext.id} Loaded`,
+        `Extension ${ext.id} Disposed`
+      ]);
+    });
+
+    it('should stop notifying a listener once it is disposed', () => {
+      let listener = onRegistryChanged(logChange);
+      listener.dispose();
+      let disp = registerExtensionPoint(point);
+      disp.dispose();
+      expect(changes).to.eql([]);
+    });
+
+  });
+
+  describe('PluginRegistry', () => {
+
+    describe('#constructor()', () => {
+
+      it('should create a new empty registry', () => {
+        let registry = new PluginRegistry();
+        expect(registry.listPlugins()).to.eql([]);
+        expect(registry.listExtensions()).to.eql([]);
+        expect(registry.listExtensionPoints()).to.eql([]);
+      });
+
+    });
+
+    describe('#registerPlugin()', () => {
+
+      it('should be isolated from other registries', () => {
+        let r1 = new PluginRegistry();
+        let r2 = new PluginRegistry();
+        let d1 = r1.registerPlugin('foo');
+        let d2 = r2.registerPlugin('foo');
+        expect(r1.listPlugins()).to.eql(['foo']);
+        expect(r2.listPlugins()).to.eql(['foo']);
+        expect(listPlugins()).to.eql([]);
+        return Promise.all([d1.ready, d2.ready]).then(() => {
+          expect(r1.listExtensionPoints()).to.eql(['my-foo:foo-point']);
+          expect(r2.listExtensionPoints()).to.eql(['my-foo:foo-point']);
+          d1.dispose();
+          expect(r1.listPlugins()).to.eql([]);
+          expect(r2.listPlugins()).to.eql(['foo']);
+          d2.dispose();
+        });
+      });
+
+    });
+
+    describe('#registerExtension()', () => {
+
+      it('should only connect points in the same registry', () => {
+        messages = [];
+        let r1 = new PluginRegistry();
+        let r2 = new PluginRegistry();
+        let pointDisp = r1.registerExtensionPoint(point);
+        let ext = createExtension();
+        let extDisp = r2.registerExtension(ext);
+        return extDisp.ready.then(() => {
+          expect(messages).to.eql([]);
+          pointDisp.dispose();
+          extDisp.dispose();
+        });
+      });
+
+    });
+
+    describe('#onChanged()', () => {
+
+      it('should only report changes to the registry', () => {
+        let r1 = new PluginRegistry();
+        let r2 = new PluginRegistry();
+        let ids: string[] = [];
+        let listener = r1.onChanged(change => { ids.push(change.id); });
+        let d1 = r1.registerExtensionPoint(point);
+        let d2 = r2.registerExtension(createExtension());
+        d1.dispose();
+        d2.dispose();
+        listener.dispose();
+        expect(ids).to.eql([POINT, POINT]);
+      });
+
+    });
+
+    describe('#setErrorHandler()', () => {
+
+      it('should only handle errors for the registry', () => {
+        let r1 = new PluginRegistry();
+        let r2 = new PluginRegistry();
+        let e1: IPluginError[] = [];
+        let e2: IPluginError[] = [];
+        r1.setErrorHandler(error => { e1.push(error); });
+        r2.setErrorHandler(error => { e2.push(error); });
+        let disp = r1.registerPlugin('does-not-exist');
+        return disp.ready.catch(() => {
+          expect(e1.length).to.be(1);
+          expect(e2.length).to.be(0);
+          disp.dispose();
+        });
+      });
+
+    });
+
+    describe('#getPluginInfo()', () => {
+
+      it('should describe a registered plugin', () => {
+        let registry = new PluginRegistry({ loader: createAlphaLoader([]) });
+        let reg = registry.registerPlugin('alpha');
+        let info = registry.getPluginInfo('alpha');
+        expect(info.state).to.be(RecordState.Loading);
+        expect(info.version).to.be(null);
+        expect(info.loadStarted).to.be.a('number');
+        expect(info.loadFinished).to.be(null);
+        return reg.ready.then(() => {
+          info = registry.getPluginInfo('alpha');
+          expect(info.name).to.be('alpha');
+          expect(info.state).to.be(RecordState.Loaded);
+          expect(info.version).to.be('1.0.0');
+          expect(info.automatic).to.be(false);
+          expect(info.requires).to.eql([]);
+          expect(info.extensions).to.eql(['alpha:ext']);
+          expect(info.extensionPoints).to.eql(['alpha:point']);
+          expect(info.error).to.be(null);
+          expect(info.loadFinished >= info.loadStarted).to.be(true);
+          reg.dispose();
+        });
+      });
+
+      it('should return `null` for an unregistered plugin', () => {
+        let registry = new PluginRegistry();
+        expect(registry.getPluginInfo('alpha')).to.be(null);
+      });
+
+    });
+
+    describe('#getExtensionInfo()', () => {
+
+      it('should describe a registered extension', () => {
+        let registry = new PluginRegistry({ loader: createAlphaLoader([]) });
+        let reg = registry.registerPlugin('alpha');
+        return reg.ready.then(() => {
+          let info = registry.getExtensionInfo('alpha:ext');
+          expect(info.id).to.be('alpha:ext');
+          expect(info.state).to.be(RecordState.Loaded);
+          expect(info.plugin).to.be('alpha');
+          expect(info.point).to.be('alpha:point');
+          expect(info.main).to.be('index.js');
+          expect(info.factory).to.be('createContrib');
+          expect(info.data).to.be('data.json');
+          expect(info.config).to.be(null);
+          expect(info.active).to.be(true);
+          expect(info.connected).to.be(true);
+          expect(info.error).to.be(null);
+          expect(info.loadStarted).to.be.a('number');
+          reg.dispose();
+        });
+      });
+
+      it('should record the last error of an extension', () => {
+        let registry = new PluginRegistry();
+        registry.setErrorHandler(() => { });
+        let pointDisp = registry.registerExtensionPoint({
+          id: POINT,
+          isDisposed: false,
+          dispose: () => { },
+          add: () => { throw new Error('add failed'); },
+          remove: () => { }
+        });
+        let ext = createExtension();
+        let extDisp = registry.registerExtension(ext);
+        return extDisp.ready.catch(() => {
+          let info = registry.getExtensionInfo(ext.id);
+          expect(info.connected).to.be(false);
+          expect(info.error.phase).to.be(ErrorPhase.ReceiverAdd);
+          expect(info.loadStarted).to.be(null);
+          expect(registry.getPointInfo(POINT).error).to.be(info.error);
+          pointDisp.dispose();
+          extDisp.dispose();
+        });
+      });
+
+    });
+
+    describe('#getPointInfo()', () => {
+
+      it('should describe a registered extension point', () => {
+        let registry = new PluginRegistry({ loader: createAlphaLoader([]) });
+        let reg = registry.registerPlugin('alpha');
+        return reg.ready.then(() => {
+          let info = registry.getPointInfo('alpha:point');
+          expect(info.id).to.be('alpha:point');
+          expect(info.state).to.be(RecordState.Loaded);
+          expect(info.plugin).to.be('alpha');
+          expect(info.main).to.be('index.js');
+          expect(info.factory).to.be('createReceiver');
+          expect(info.extensions).to.eql(['alpha:ext']);
+          info.extensions.push('bogus');
+          expect(registry.getPointInfo('alpha:point').extensions).to.eql(['alpha:ext']);
+          reg.dispose();
+          expect(registry.getPointInfo('alpha:point')).to.be(null);
+        });
+      });
+
+    });
+
+  });
+
+  describe('MapLoader', () => {
+
+    describe('#loadManifest()', () => {
+
+      it('should resolve the package manifest of a plugin', () => {
+        let loader = createAlphaLoader([]);
+        return loader.loadManifest('alpha').then(pkg => {
+          expect(pkg.name).to.be('alpha');
+        });
+      });
+
+      it('should reject if the manifest is not defined', () => {
+        let loader = new MapLoader();
+        return loader.loadManifest('alpha').then(() => {
+          throw new Error('should not resolve');
+        }, err => {
+          expect(err.message).to.be(`Module 'alpha/package.json' is not defined.`);
+        });
+      });
+
+    });
+
+    describe('#importModule()', () => {
+
+      it('should resolve a module relative to the plugin', () => {
+        let loader = createAlphaLoader([]);
+        return loader.importModule('alpha', 'index.js').then(mod => {
+          expect(typeof mod.createReceiver).to.be('function');
+        });
+      });
+
+    });
+
+    describe('#importData()', () => {
+
+      it('should resolve a data file relative to the plugin', () => {
+        let loader = createAlphaLoader([]);
+        return loader.importData('alpha', 'data.json').then(data => {
+          expect(data).to.eql({ value: 42 });
+        });
+      });
+
+    });
+
+    describe('#set()', () => {
+
+      it('should define a module for a path', () => {
+        let loader = new MapLoader();
+        loader.set('beta/index.js', { value: 1 });
+        return loader.importModule('beta', 'index.js').then(mod => {
+          expect(mod.value).to.be(1);
+        });
+      });
+
+    });
+
+    describe('#delete()', () => {
+
+      it('should remove the module for a path', () => {
+        let loader = createAlphaLoader([]);
+        loader.delete('alpha/data.json');
+        return loader.importData('alpha', 'data.json').then(() => {
+          throw new Error('should not resolve');
+        }, err => {
+          expect(err.message).to.be(`Module 'alpha/data.json' is not defined.`);
+        });
+      });
+
+    });
+
+    it('should be usable as the loader for a registry', () => {
+      let log: string[] = [];
+      let loader = createAlphaLoader(log);
+      let registry = new PluginRegistry({ loader });
+      expect(registry.loader).to.be(loader);
+      let disp = registry.registerPlugin('alpha');
+      return disp.ready.then(() => {
+        expect(log).to.eql(['add alpha:ext alpha-item 42']);
+        disp.dispose();
+        expect(log).to.eql([
+          'add alpha:ext alpha-item 42',
+          'remove alpha:ext',
+          'dispose receiver',
+          'dispose contrib'
+        ]);
+      });
+    });
+
+  });
+
+  describe('SystemLoader', () => {
+
+    describe('#loadManifest()', () => {
+
+      it('should load the package manifest with `System.import`', () => {
+        let loader = new SystemLoader();
+        return loader.loadManifest('foo').then(pkg => {
+          expect(pkg.name).to.be('foo');
+        });
+      });
+
+    });
+
+    describe('#importData()', () => {
+
+      it('should load a data file with `System.import`', () => {
+        let loader = new SystemLoader();
+        return loader.importData('bar', 'data.json').then(data => {
+          expect(data).to.eql({ fizz: 100, buzz: 'apple' });
+        });
+      });
+
+    });
+
+    it('should be the default loader for a registry', () => {
+      let registry = new PluginRegistry();
+      expect(registry.loader instanceof SystemLoader).to.be(true);
+    });
+
+  });
+
+  describe('NativeLoader', () => {
+
+    function createNativeLoader(log: string[]): NativeLoader {
+      return new NativeLoader({
+        importer: specifier => {
+          log.push(`import ${specifier}`);
+          return Promise.resolve({ specifier });
+        },
+        fetchJSON: specifier => {
+          log.push(`fetch ${specifier}`);
+          return Promise.resolve({ name: 'foo' });
+        },
+        resolve: (plugin, path) => `/plugins/${plugin}/${path}`
+      });
+    }
+
+    describe('#constructor()', () => {
+
+      it('should throw if the importer is not a function', () => {
+        expect(() => new NativeLoader({ importer: null })).to.throwError();
+      });
+
+    });
+
+    describe('#loadManifest()', () => {
 
+      it('should fetch the package manifest as JSON', () => {
+        let log: string[] = [];
+        let loader = createNativeLoader(log);
+        return loader.loadManifest('foo').then(pkg => {
+          expect(pkg.name).to.be('foo');
+          expect(log).to.eql(['fetch /plugins/foo/package.json']);
+        });
+      });
+
+    });
+
+    describe('#importModule()', () => {
+
+      it('should import the resolved specifier', () => {
+        let log: string[] = [];
+        let loader = createNativeLoader(log);
+        return loader.importModule('foo', 'index.js').then(mod => {
+          expect(mod.specifier).to.be('/plugins/foo/index.js');
+          expect(log).to.eql(['import /plugins/foo/index.js']);
+        });
+      });
+
+      it('should reject if the importer throws', () => {
+        let loader = new NativeLoader({
+          importer: (specifier: string): Promise<any> => {
+            throw new Error('unsupported');
+          }
+        });
+        let promise = loader.importModule('foo', 'index.js');
+        return promise.then(() => {
+          throw new Error('should have rejected');
+        }, err => {
+          expect(err.message).to.be('unsupported');
+        });
+      });
+
+    });
+
+    describe('#invalidate()', () => {
+
+      it('should append a version query to later specifiers', () => {
+        let log: string[] = [];
+        let loader = createNativeLoader(log);
+        loader.invalidate('foo');
+        return loader.importModule('foo', 'index.js').then(() => {
+          return loader.importData('bar', 'data.json');
+        }).then(() => {
+          expect(log).to.eql([
+            'import /plugins/foo/index.js?v=1',
+            'fetch /plugins/bar/data.json'
+          ]);
+        });
+      });
+
+    });
+
+  });
+
+  describe('plugin requirements', () => {
+
+    let errors: IPluginError[] = [];
+
+    function createRegistry(modules: { [path: string]: any }, registerDependencies = false): PluginRegistry {
+      let loader = new MapLoader(modules);
+      return createTestRegistry({ loader, registerDependencies }, errors);
+    }
+
+    beforeEach(() => {
+      errors = [];
+    });
+
+    it('should load a required plugin before the plugin contents', () => {
+      let registry = createRegistry({
+        'base/package.json': delayed(createManifest('base', '1.2.0', {
+          extensionPoints: [{ id: 'base:point' }]
+        }), 20),
+        'app/package.json': createManifest('app', '1.0.0', {
+          requires: { base: '^1.0.0' },
+          extensionPoints: [{ id: 'app:point' }]
+        })
+      });
+      let app = registry.registerPlugin('app');
+      let base = registry.registerPlugin('base');
+      return app.ready.then(() => {
+        expect(registry.listExtensionPoints()).to.eql(['base:point', 'app:point']);
+        app.dispose();
+        base.dispose();
+      });
+    });
+
+    it('should accept an array of required plugin names', () => {
+      let registry = createRegistry({
+        'base/package.json': createManifest('base', '0.1.0', {}),
+        'app/package.json': createManifest('app', '1.0.0', { requires: ['base'] })
+      });
+      let base = registry.registerPlugin('base');
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        expect(registry.listPlugins()).to.eql(['base', 'app']);
+        app.dispose();
+        base.dispose();
+      });
+    });
+
+    it('should fail if a required plugin is not registered', () => {
+      let registry = createRegistry({
+        'app/package.json': createManifest('app', '1.0.0', { requires: ['base'] })
+      });
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`requires 'base'`);
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.ResolveDependencies);
+        expect(errors[0].plugin).to.be('app');
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should fail if a required plugin has an incompatible version', () => {
+      let registry = createRegistry({
+        'base/package.json': createManifest('base', '2.0.0', {}),
+        'app/package.json': createManifest('app', '1.0.0', {
+          requires: { base: '^1.0.0' }
+        })
+      });
+      let base = registry.registerPlugin('base');
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'base@^1.0.0'`);
+        expect(registry.listPlugins()).to.eql(['base']);
+        base.dispose();
+      });
+    });
+
+    it('should match the supported version range syntax', () => {
+      let registry = createRegistry({
+        'base/package.json': createManifest('base', '1.4.2', {}),
+        'app/package.json': createManifest('app', '1.0.0', {
+          requires: { base: '>=1.2 <2.0.0 || 3.x' }
+        })
+      });
+      let base = registry.registerPlugin('base');
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        expect(registry.listPlugins()).to.eql(['base', 'app']);
+        app.dispose();
+        base.dispose();
+      });
+    });
+
+    it('should fail for an unsupported version range', () => {
+      let registry = createRegistry({
+        'base/package.json': createManifest('base', '1.0.0', {}),
+        'app/package.json': createManifest('app', '1.0.0', {
+          requires: { base: '1.0.0 - 2.0.0' }
+        })
+      });
+      let base = registry.registerPlugin('base');
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`version range '1.0.0 - 2.0.0' for 'base' is not supported`);
+        expect(errors[0].phase).to.be(ErrorPhase.ValidateSpec);
+        expect(registry.listPlugins()).to.eql(['base']);
+        base.dispose();
+      });
+    });
+
+    it('should fail if a required plugin fails to load', () => {
+      let registry = createRegistry({
+        'app/package.json': createManifest('app', '1.0.0', { requires: ['base'] })
+      });
+      let base = registry.registerPlugin('base');
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'base' failed to load`);
+        expect(registry.listPlugins()).to.eql([]);
+        base.dispose();
+      });
+    });
+
+    it('should fail if the requirements form a cycle', () => {
+      let registry = createRegistry({
+        'a/package.json': createManifest('a', '1.0.0', { requires: ['b'] }),
+        'b/package.json': createManifest('b', '1.0.0', { requires: ['a'] })
+      });
+      let a = registry.registerPlugin('a');
+      let b = registry.registerPlugin('b');
+      return Promise.all([a.ready.catch(err => err), b.ready.catch(err => err)]).then(results => {
+        expect(results[0]).to.be.an(Error);
+        expect(results[1].message).to.contain('circular dependency: b -> a -> b');
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should automatically register required plugins if enabled', () => {
+      let registry = createRegistry({
+        'base/package.json': createManifest('base', '1.0.0', {
+          extensionPoints: [{ id: 'base:point' }]
+        }),
+        'app/package.json': createManifest('app', '1.0.0', { requires: ['base'] })
+      }, true);
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        expect(registry.listPlugins()).to.eql(['app', 'base']);
+        expect(registry.listExtensionPoints()).to.eql(['base:point']);
+        app.dispose();
+        expect(registry.listPlugins()).to.eql(['base']);
+        return app.unloaded;
+      }).then(() => {
+        expect(registry.listPlugins()).to.eql([]);
+        expect(registry.listExtensionPoints()).to.eql([]);
+      });
+    });
+
+  });
+
+  describe('activation', () => {
+
+    let log: string[] = [];
+    let errors: IPluginError[] = [];
+
+    function createRegistry(pointPolicy: string, extPolicy: string): PluginRegistry {
+      let point: IPointManifest = { id: 'lazy:point', main: 'index.js', factory: 'createReceiver' };
+      let ext = createItem('lazy:ext', 'lazy:point', { main: 'index.js', factory: 'createContrib' });
+      if (pointPolicy) point.activation = pointPolicy;
+      if (extPolicy) ext.activation = extPolicy;
+      let loader = new MapLoader({
+        'lazy/package.json': createManifest('lazy', '1.0.0', {
+          extensionPoints: [point],
+          extensions: [ext]
+        }),
+        'lazy/index.js': {
+          createReceiver: () => {
+            log.push('create receiver');
+            return createLogReceiver(message => { log.push(message); });
+          },
+          createContrib: () => {
+            log.push('create contrib');
+            return { item: 'lazy-item' };
+          }
+        }
+      });
+      return createTestRegistry({ loader }, errors);
+    }
+
+    beforeEach(() => {
+      log = [];
+      errors = [];
+    });
+
+    it('should load eager records as soon as they match', () => {
+      let registry = createRegistry('eager', null);
+      let reg = registry.registerPlugin('lazy');
+      return reg.ready.then(() => {
+        expect(log).to.eql(['create receiver', 'create contrib', 'add lazy:ext']);
+        reg.dispose();
+      });
+    });
+
+    it('should not load a lazy point until it is activated', () => {
+      let registry = createRegistry('lazy', null);
+      let reg = registry.registerPlugin('lazy');
+      return reg.ready.then(() => {
+        expect(log).to.eql([]);
+        return registry.activatePoint('lazy:point');
+      }).then(() => {
+        expect(log).to.eql(['create receiver', 'create contrib', 'add lazy:ext']);
+        reg.dispose();
+      });
+    });
+
+    it('should load an activated point without extensions', () => {
+      let registry = createRegistry('lazy', 'lazy');
+      let reg = registry.registerPlugin('lazy');
+      return reg.ready.then(() => {
+        return registry.activatePoint('lazy:point');
+      }).then(() => {
+        expect(log).to.eql(['create receiver']);
+        reg.dispose();
+      });
+    });
+
+    it('should load lazy extensions when they are requested', () => {
+      let registry = createRegistry('lazy', 'lazy');
+      let reg = registry.registerPlugin('lazy');
+      return reg.ready.then(() => {
+        expect(log).to.eql([]);
+        return registry.requestExtensions('lazy:point');
+      }).then(extensions => {
+        expect(extensions.length).to.be(1);
+        expect(extensions[0].id).to.be('lazy:ext');
+        expect(extensions[0].item).to.be('lazy-item');
+        expect(log).to.eql(['create receiver', 'create contrib', 'add lazy:ext']);
+        reg.dispose();
+      });
+    });
+
+    it('should activate records when their event is emitted', () => {
+      let registry = createRegistry('event:startup', 'event:startup');
+      let reg = registry.registerPlugin('lazy');
+      return reg.ready.then(() => {
+        expect(log).to.eql([]);
+        return registry.emitActivationEvent('other');
+      }).then(() => {
+        expect(log).to.eql([]);
+        return registry.emitActivationEvent('startup');
+      }).then(() => {
+        expect(log).to.eql(['create receiver', 'create contrib', 'add lazy:ext']);
+        reg.dispose();
+      });
+    });
+
+    it('should activate records registered after their event', () => {
+      let registry = createRegistry('event:startup', null);
+      return registry.emitActivationEvent('startup').then(() => {
+        return registry.registerPlugin('lazy').ready;
+      }).then(() => {
+        expect(log).to.eql(['create receiver', 'create contrib', 'add lazy:ext']);
+      });
+    });
+
+    it('should reject an invalid activation policy', () => {
+      let registry = createRegistry('sometimes', null);
+      return registry.registerPlugin('lazy').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('`activation`');
+        expect(errors[0].phase).to.be(ErrorPhase.ValidateSpec);
+      });
+    });
+
+    it('should reject an unregistered extension point', () => {
+      let registry = createRegistry(null, null);
+      return registry.requestExtensions('missing:point').then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'missing:point' is not registered`);
+      });
+    });
+
+  });
+
+  describe('schema validation', () => {
+
+    let log: string[] = [];
+    let errors: IPluginError[] = [];
+
+    let menuSchema = {
+      type: 'object',
+      required: ['items'],
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['label'],
+            properties: { label: { type: 'string', minLength: 1 } }
+          }
+        }
+      }
+    };
+
+    function createRegistry(data: any): PluginRegistry {
+      let loader = new MapLoader({
+        'menu/package.json': createManifest('menu', '1.0.0', {
+          extensionPoints: [{
+            id: 'menu:point',
+            main: 'index.js',
+            factory: 'createReceiver',
+            schema: { data: menuSchema }
+          }],
+          extensions: [{ id: 'menu:ext', point: 'menu:point', data: 'data.json' }]
+        }),
+        'menu/index.js': {
+          createReceiver: () => createLogReceiver(message => { log.push(message); })
+        },
+        'menu/data.json': data
+      });
+      return createTestRegistry({ loader }, errors);
+    }
+
+    beforeEach(() => {
+      log = [];
+      errors = [];
+    });
+
+    it('should add an extension with valid data', () => {
+      let registry = createRegistry({ items: [{ label: 'Open' }] });
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        expect(log).to.eql(['add menu:ext']);
+        expect(errors).to.eql([]);
+        reg.dispose();
+      });
+    });
+
+    it('should reject an extension with invalid data', () => {
+      let registry = createRegistry({ items: [{ label: 'Open' }, { name: 'Save' }] });
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'data.items[1].label' is required.`);
+        expect(log).to.eql([]);
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.ValidateData);
+        expect(errors[0].point).to.be('menu:point');
+        expect(errors[0].extension).to.be('menu:ext');
+        expect(registry.getExtensionInfo('menu:ext').connected).to.be(false);
+        reg.dispose();
+      });
+    });
+
+    it('should validate the config of a dynamic extension', () => {
+      let registry = createTestRegistry({}, errors);
+      let pointDisp = registry.registerExtensionPoint({
+        id: POINT,
+        isDisposed: false,
+        dispose: () => { },
+        add: (extension: IExtension) => { log.push(`add ${extension.id}`); },
+        remove: () => { },
+        schema: {
+          config: {
+            type: 'object',
+            properties: { size: { type: 'integer', minimum: 1 } },
+            additionalProperties: false
+          }
+        }
+      });
+      let ext = createExtension();
+      ext.config = { size: 1.5 };
+      let extDisp = registry.registerExtension(ext);
+      return extDisp.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'config.size' must be of type integer.`);
+        expect(log).to.eql([]);
+        pointDisp.dispose();
+        extDisp.dispose();
+      });
+    });
+
+    it('should not match a required key on the prototype', () => {
+      let registry = createTestRegistry({}, errors);
+      let pointDisp = registry.registerExtensionPoint({
+        id: POINT,
+        isDisposed: false,
+        dispose: () => { },
+        add: (extension: IExtension) => { log.push(`add ${extension.id}`); },
+        remove: () => { },
+        schema: { config: { type: 'object', required: ['toString'] } }
+      });
+      let ext = createExtension();
+      ext.config = {};
+      let extDisp = registry.registerExtension(ext);
+      return extDisp.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'config.toString' is required.`);
+        expect(log).to.eql([]);
+        pointDisp.dispose();
+        extDisp.dispose();
+      });
+    });
+
+    it('should not match a property key on the prototype', () => {
+      let registry = createTestRegistry({}, errors);
+      let pointDisp = registry.registerExtensionPoint({
+        id: POINT,
+        isDisposed: false,
+        dispose: () => { },
+        add: (extension: IExtension) => { log.push(`add ${extension.id}`); },
+        remove: () => { },
+        schema: { config: { type: 'object', properties: { }, additionalProperties: false } }
+      });
+      let ext = createExtension();
+      ext.config = JSON.parse('{ "constructor": 1 }');
+      let extDisp = registry.registerExtension(ext);
+      return extDisp.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'config.constructor' is not an allowed property.`);
+        expect(log).to.eql([]);
+        pointDisp.dispose();
+        extDisp.dispose();
+      });
+    });
+
+    it('should check the patterns of a schema', () => {
+      let registry = createTestRegistry({}, errors);
+      let pointDisp = registry.registerExtensionPoint({
+        id: POINT,
+        isDisposed: false,
+        dispose: () => { },
+        add: (extension: IExtension) => { log.push(`add ${extension.id}`); },
+        remove: () => { },
+        schema: { config: { type: 'string', pattern: '^[a-z]+$' } }
+      });
+      let good = createExtension();
+      good.config = 'open';
+      let bad = createExtension();
+      bad.config = 'Open';
+      let r1 = registry.registerExtension(good);
+      let r2 = registry.registerExtension(bad);
+      return r1.ready.then(() => r2.ready).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'config' must match the pattern '^[a-z]+$'.`);
+        expect(log).to.eql([`add ${good.id}`]);
+        pointDisp.dispose();
+        r1.dispose();
+        r2.dispose();
+      });
+    });
+
+    it('should reject an invalid pattern when the point is registered', () => {
+      let registry = createTestRegistry({
+        loader: new MapLoader({
+          'menu/package.json': createManifest('menu', '1.0.0', {
+            extensionPoints: [{
+              id: 'menu:point',
+              schema: { data: { properties: { label: { pattern: '[a-' } } } }
+            }]
+          })
+        })
+      }, errors);
+      expect(() => {
+        registry.registerExtensionPoint({
+          id: POINT,
+          isDisposed: false,
+          dispose: () => { },
+          add: () => { },
+          remove: () => { },
+          schema: { config: { pattern: '(' } }
+        });
+      }).to.throwError(/Schema `pattern` for 'config' is not valid/);
+      return registry.registerPlugin('menu').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`Schema \`pattern\` for 'data.label' is not valid`);
+        expect(errors[0].phase).to.be(ErrorPhase.ValidateSpec);
+        expect(registry.listExtensionPoints()).to.eql([]);
+      });
+    });
+
+    it('should reject a schema which is not an object', () => {
+      let registry = new PluginRegistry({
+        loader: new MapLoader({
+          'menu/package.json': createManifest('menu', '1.0.0', {
+            extensionPoints: [{ id: 'menu:point', schema: { data: true } }]
+          })
+        })
+      });
+      registry.setErrorHandler(error => { errors.push(error); });
+      return registry.registerPlugin('menu').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('`schema.data`');
+        expect(errors[0].phase).to.be(ErrorPhase.ValidateSpec);
+      });
+    });
+
+  });
+
+  describe('factory context', () => {
+
+    let pointContexts: IPointContext[] = [];
+    let extensionContexts: IExtensionContext[] = [];
+
+    function createRegistry(): PluginRegistry {
+      let loader = new MapLoader({
+        'ctx/package.json': createManifest('ctx', '1.0.0', {
+          extensionPoints: [{
+            id: 'ctx:point',
+            main: 'index.js',
+            factory: 'createReceiver',
+            schema: { config: { type: 'object' } }
+          }],
+          extensions: [{
+            id: 'ctx:ext',
+            point: 'ctx:point',
+            main: 'index.js',
+            factory: 'createContrib',
+            data: 'data.json',
+            config: { size: 2 }
+          }]
+        }),
+        'ctx/index.js': {
+          createReceiver: (context: IPointContext) => {
+            pointContexts.push(context);
+            return { add: () => { }, remove: () => { } };
+          },
+          createContrib: (context: IExtensionContext) => {
+            extensionContexts.push(context);
+            return { item: context.data.value * context.config.size };
+          }
+        },
+        'ctx/data.json': { value: 21 }
+      });
+      return new PluginRegistry({ loader });
+    }
+
+    beforeEach(() => {
+      pointContexts = [];
+      extensionContexts = [];
+    });
+
+    it('should pass a context to the extension factory', () => {
+      let registry = createRegistry();
+      let reg = registry.registerPlugin('ctx');
+      return reg.ready.then(() => {
+        let context = extensionContexts[0];
+        expect(context.id).to.be('ctx:ext');
+        expect(context.plugin).to.be('ctx');
+        expect(context.point).to.be('ctx:point');
+        expect(context.data).to.eql({ value: 21 });
+        expect(context.config).to.eql({ size: 2 });
+        expect(context.registry).to.be(registry);
+        expect(context.logger.log).to.be.a('function');
+        let request = registry.requestExtensions('ctx:point');
+        return request.then(extensions => {
+          expect(extensions[0].item).to.be(42);
+          reg.dispose();
+        });
+      });
+    });
+
+    it('should pass a context to the extension point factory', () => {
+      let registry = createRegistry();
+      let reg = registry.registerPlugin('ctx');
+      return reg.ready.then(() => {
+        let context = pointContexts[0];
+        expect(context.id).to.be('ctx:point');
+        expect(context.plugin).to.be('ctx');
+        expect(context.schema).to.eql({ config: { type: 'object' } });
+        expect(context.registry).to.be(registry);
+        reg.dispose();
+      });
+    });
+
+    it('should dispose the token along with the created object', () => {
+      let registry = createRegistry();
+      let reg = registry.registerPlugin('ctx');
+      let log: string[] = [];
+      return reg.ready.then(() => {
+        let context = extensionContexts[0];
+        expect(context.token.isDisposed).to.be(false);
+        context.token.onDisposed(() => { log.push('first'); });
+        let second = context.token.onDisposed(() => { log.push('second'); });
+        second.dispose();
+        reg.dispose();
+        expect(context.token.isDisposed).to.be(true);
+        expect(log).to.eql(['first']);
+        context.token.onDisposed(() => { log.push('late'); });
+        expect(log).to.eql(['first', 'late']);
+      });
+    });
+
+  });
+
+  describe('services', () => {
+
+    interface ICounter {
+      next(): number;
+    }
+
+    let COUNTER = new ServiceToken<ICounter>('base:counter');
+
+    let log: string[] = [];
+    let errors: IPluginError[] = [];
+
+    function createRegistry(): PluginRegistry {
+      let loader = new MapLoader({
+        'base/package.json': createManifest('base', '1.0.0', {
+          provides: [{ id: 'base:counter', main: 'index.js', factory: 'createCounter' }]
+        }),
+        'base/index.js': {
+          createCounter: (context: IFactoryContext): ICounter => {
+            log.push(`create ${context.id}`);
+            let count = 0;
+            return {
+              next: () => ++count,
+              dispose: () => { log.push('dispose counter'); }
+            } as ICounter;
+          }
+        },
+        'app/package.json': createManifest('app', '1.0.0', {
+          requires: ['base'],
+          consumes: ['base:counter']
+        }),
+        'orphan/package.json': createManifest('orphan', '1.0.0', {
+          consumes: ['base:counter']
+        })
+      });
+      return createTestRegistry({ loader }, errors);
+    }
+
+    beforeEach(() => {
+      log = [];
+      errors = [];
+    });
+
+    it('should create a provided service on first use', () => {
+      let registry = createRegistry();
+      let base = registry.registerPlugin('base');
+      return base.ready.then(() => {
+        expect(registry.listServices()).to.eql(['base:counter']);
+        expect(log).to.eql([]);
+        return Promise.all([
+          registry.resolveService(COUNTER),
+          registry.resolveService('base:counter')
+        ]);
+      }).then(counters => {
+        expect(counters[0]).to.be(counters[1]);
+        expect(counters[0].next()).to.be(1);
+        expect(log).to.eql(['create base:counter']);
+        base.dispose();
+        return base.unloaded;
+      }).then(() => {
+        expect(log).to.eql(['create base:counter', 'dispose counter']);
+        expect(registry.listServices()).to.eql([]);
+      });
+    });
+
+    it('should resolve the consumed services of a plugin', () => {
+      let registry = createRegistry();
+      let base = registry.registerPlugin('base');
+      let app = registry.registerPlugin('app');
+      return app.ready.then(() => {
+        expect(log).to.eql(['create base:counter']);
+        expect(registry.getPluginInfo('app').consumes).to.eql(['base:counter']);
+        expect(registry.getPluginInfo('base').provides).to.eql(['base:counter']);
+        app.dispose();
+        base.dispose();
+      });
+    });
+
+    it('should fail a plugin which consumes a missing service', () => {
+      let registry = createRegistry();
+      return registry.registerPlugin('orphan').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`consumes 'base:counter'`);
+        expect(errors[0].phase).to.be(ErrorPhase.ResolveDependencies);
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should reject an unregistered service', () => {
+      let registry = createRegistry();
+      return registry.resolveService(COUNTER).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'base:counter' is not registered`);
+      });
+    });
+
+    it('should register a service created at runtime', () => {
+      let registry = createRegistry();
+      let counter = { next: () => 7, dispose: () => { log.push('dispose'); } };
+      let reg = registry.registerService(COUNTER, counter);
+      expect(() => { registry.registerService(COUNTER, counter); }).to.throwError();
+      return registry.resolveService(COUNTER).then(service => {
+        expect(service.next()).to.be(7);
+        reg.dispose();
+        expect(log).to.eql(['dispose']);
+        expect(registry.listServices()).to.eql([]);
+      });
+    });
+
+  });
+
+  describe('plugin reload', () => {
+
+    let log: string[] = [];
+    let errors: IPluginError[] = [];
+
+    function createHotManifest(extensions: IExtensionManifest[], requires: string[] = []): IPackageManifest {
+      return createManifest('hot', '1.0.0', {
+        requires: requires,
+        extensionPoints: [{ id: 'hot:point', main: 'point.js', factory: 'createReceiver' }],
+        extensions: extensions
+      });
+    }
+
+    function createHotExtension(id: string, config: any = {}): IExtensionManifest {
+      return createItem(id, 'hot:point', { main: 'ext.js', factory: 'createContrib', config });
+    }
+
+    function createExtModule(version: number): any {
+      return {
+        createContrib: (context: IExtensionContext) => ({
+          item: `${context.id}@${version}`
+        })
+      };
+    }
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'hot/package.json': createHotManifest([
+          createHotExtension('hot:a'), createHotExtension('hot:b')
+        ]),
+        'hot/point.js': {
+          createReceiver: () => {
+            log.push('create receiver');
+            return {
+              add: (extension: IExtension) => { log.push(`add ${extension.item}`); },
+              remove: (id: string) => { log.push(`remove ${id}`); }
+            };
+          }
+        },
+        'hot/ext.js': createExtModule(1)
+      });
+    }
+
+    function createRegistry(loader: MapLoader): PluginRegistry {
+      return createTestRegistry({ loader }, errors);
+    }
+
+    beforeEach(() => {
+      log = [];
+      errors = [];
+    });
+
+    it('should only recreate the records whose spec changed', () => {
+      let loader = createLoader();
+      let registry = createRegistry(loader);
+      let reg = registry.registerPlugin('hot');
+      return reg.ready.then(() => {
+        log = [];
+        loader.set('hot/package.json', createHotManifest([
+          createHotExtension('hot:a'),
+          createHotExtension('hot:b', { size: 2 }),
+          createHotExtension('hot:c')
+        ]));
+        return registry.reloadPlugin('hot');
+      }).then(() => {
+        expect(log).to.eql(['remove hot:b', 'add hot:b@1', 'add hot:c@1']);
+        expect(registry.listExtensions()).to.eql(['hot:a', 'hot:b', 'hot:c']);
+        expect(registry.getExtensionInfo('hot:b').config).to.eql({ size: 2 });
+        reg.dispose();
+      });
+    });
+
+    it('should recreate the records whose module changed', () => {
+      let loader = createLoader();
+      let registry = createRegistry(loader);
+      let reg = registry.registerPlugin('hot');
+      return reg.ready.then(() => {
+        log = [];
+        loader.set('hot/ext.js', createExtModule(2));
+        return registry.reloadPlugin('hot', ['ext.js']);
+      }).then(() => {
+        expect(log).to.eql([
+          'remove hot:a', 'remove hot:b', 'add hot:a@2', 'add hot:b@2'
+        ]);
+        reg.dispose();
+      });
+    });
+
+    it('should remove the records which were removed from the spec', () => {
+      let loader = createLoader();
+      let registry = createRegistry(loader);
+      let reg = registry.registerPlugin('hot');
+      return reg.ready.then(() => {
+        log = [];
+        loader.set('hot/package.json', createHotManifest([createHotExtension('hot:b')]));
+        return registry.reloadPlugin('hot');
+      }).then(() => {
+        expect(log).to.eql(['remove hot:a']);
+        expect(registry.getPluginInfo('hot').extensions).to.eql(['hot:b']);
+        reg.dispose();
+        expect(registry.listExtensions()).to.eql([]);
+      });
+    });
+
+    it('should wait for the removed records to finish their disposal', () => {
+      let loader = createLoader();
+      loader.set('hot/ext.js', {
+        createContrib: (context: IExtensionContext) => ({
+          item: context.id,
+          dispose: () => delayed(null, 10).then(() => { log.push(`dispose ${context.id}`); })
+        })
+      });
+      let registry = createRegistry(loader);
+      let reg = registry.registerPlugin('hot');
+      return reg.ready.then(() => {
+        log = [];
+        loader.set('hot/package.json', createHotManifest([createHotExtension('hot:b')]));
+        return registry.reloadPlugin('hot');
+      }).then(() => {
+        expect(log).to.eql(['remove hot:a', 'dispose hot:a']);
+        reg.dispose();
+      });
+    });
+
+    it('should reject a reload which changes the requirements', () => {
+      let loader = createLoader();
+      let registry = createRegistry(loader);
+      let reg = registry.registerPlugin('hot');
+      return reg.ready.then(() => {
+        log = [];
+        loader.set('hot/package.json', createHotManifest([], ['base']));
+        return registry.reloadPlugin('hot');
+      }).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('requirements have changed');
+        expect(errors[0].phase).to.be(ErrorPhase.ResolveDependencies);
+        expect(log).to.eql([]);
+        expect(registry.listExtensions()).to.eql(['hot:a', 'hot:b']);
+        reg.dispose();
+      });
+    });
+
+    it('should reject a reload which changes the main module', () => {
+      let loader = createLoader();
+      loader.set('hot/package.json', createManifest('hot', '1.0.0', { main: 'index.js' }));
+      loader.set('hot/index.js', {});
+      let registry = createRegistry(loader);
+      let reg = registry.registerPlugin('hot');
+      return reg.ready.then(() => {
+        return registry.reloadPlugin('hot', ['index.js']);
+      }).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('main module has changed');
+        expect(err.message).to.contain('register the plugin again');
+        expect(errors[0].phase).to.be(ErrorPhase.ValidateSpec);
+        loader.set('hot/package.json', createManifest('hot', '1.0.0', { main: 'main.js' }));
+        return registry.reloadPlugin('hot');
+      }).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('main module has changed');
+        expect(registry.getPluginInfo('hot').main).to.be('index.js');
+        reg.dispose();
+      });
+    });
+
+    it('should reject a plugin which is not loaded', () => {
+      let registry = createRegistry(createLoader());
+      return registry.reloadPlugin('hot').then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain(`'hot' is not loaded`);
+      });
+    });
+
+  });
+
+  describe('extension ordering', () => {
+
+    let log: string[] = [];
+
+    function createRegistry(extensions: IExtensionManifest[], timeouts: ILoadTimeouts = {}): PluginRegistry {
+      let loader = new MapLoader({
+        'menu/package.json': createManifest('menu', '1.0.0', {
+          extensionPoints: [{ id: 'menu:items', main: 'index.js', factory: 'createReceiver' }],
+          extensions: extensions
+        }),
+        'menu/index.js': {
+          createReceiver: () => ({
+            add: (extension: IExtension, index: number) => {
+              log.push(`${extension.id} ${index}`);
+            },
+            remove: (id: string) => { log.push(`remove ${id}`); }
+          })
+        },
+        'menu/slow.json': delayed({}, 20),
+        'menu/fast.json': {}
+      });
+      return new PluginRegistry({ loader, timeouts });
+    }
+
+    beforeEach(() => {
+      log = [];
+    });
+
+    it('should add extensions at their sorted index as they load', () => {
+      let registry = createRegistry([
+        createItem('menu:c', 'menu:items', { rank: 30, data: 'fast.json' }),
+        createItem('menu:a', 'menu:items', { rank: 10, data: 'slow.json' }),
+        createItem('menu:d', 'menu:items'),
+        createItem('menu:b', 'menu:items', { rank: 20, data: 'fast.json' })
+      ]);
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        expect(log).to.eql(['menu:b 0', 'menu:c 1', 'menu:d 2', 'menu:a 0']);
+        let info = registry.getPointInfo('menu:items');
+        expect(info.extensions).to.eql(['menu:a', 'menu:b', 'menu:c', 'menu:d']);
+        reg.dispose();
+      });
+    });
+
+    it('should add extensions in rank order within the settle time', () => {
+      let registry = createRegistry([
+        createItem('menu:c', 'menu:items', { rank: 30, data: 'fast.json' }),
+        createItem('menu:a', 'menu:items', { rank: 10, data: 'slow.json' }),
+        createItem('menu:d', 'menu:items'),
+        createItem('menu:b', 'menu:items', { rank: 20, data: 'fast.json' })
+      ], { settle: Infinity });
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        expect(log).to.eql(['menu:a 0', 'menu:b 1', 'menu:c 2', 'menu:d 3']);
+        let info = registry.getPointInfo('menu:items');
+        expect(info.extensions).to.eql(['menu:a', 'menu:b', 'menu:c', 'menu:d']);
+        reg.dispose();
+      });
+    });
+
+    it('should apply before and after constraints over the rank', () => {
+      let registry = createRegistry([
+        createItem('menu:a', 'menu:items', { rank: 10 }),
+        createItem('menu:b', 'menu:items', { rank: 20, before: 'menu:a' }),
+        createItem('menu:c', 'menu:items', { rank: 30, after: ['menu:missing'] }),
+        createItem('menu:d', 'menu:items', { rank: 0, after: ['menu:c'] })
+      ]);
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        expect(log).to.eql(['menu:b 0', 'menu:a 1', 'menu:c 2', 'menu:d 3']);
+        expect(registry.getExtensionInfo('menu:b').before).to.eql(['menu:a']);
+        reg.dispose();
+      });
+    });
+
+    it('should pass the sorted index of a late extension', () => {
+      let registry = createRegistry([
+        createItem('menu:a', 'menu:items', { rank: 10 }),
+        createItem('menu:c', 'menu:items', { rank: 30 })
+      ]);
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        log = [];
+        let ext = createExtension();
+        ext.id = 'menu:b';
+        ext.point = 'menu:items';
+        ext.rank = 20;
+        return registry.registerExtension(ext).ready;
+      }).then(() => {
+        expect(log).to.eql(['menu:b 1']);
+        let info = registry.getPointInfo('menu:items');
+        expect(info.extensions).to.eql(['menu:a', 'menu:b', 'menu:c']);
+        reg.dispose();
+      });
+    });
+
+    it('should insert a late extension without moving the delivered extensions', () => {
+      let registry = createRegistry([
+        createItem('menu:x', 'menu:items', { rank: 1 }),
+        createItem('menu:y', 'menu:items', { rank: 2, before: 'menu:z' })
+      ]);
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        log = [];
+        let ext = createExtension();
+        ext.id = 'menu:z';
+        ext.point = 'menu:items';
+        ext.before = ['menu:x'];
+        return registry.registerExtension(ext).ready;
+      }).then(() => {
+        expect(log).to.eql(['menu:z 0']);
+        let info = registry.getPointInfo('menu:items');
+        expect(info.extensions).to.eql(['menu:z', 'menu:x', 'menu:y']);
+        let list = registry.getExtensions('menu:items');
+        expect(list.extensions.map(ext => ext.id)).to.eql(['menu:z', 'menu:x', 'menu:y']);
+        reg.dispose();
+      });
+    });
+
+    it('should not wait for a slow extension past the settle timeout', () => {
+      let registry = createRegistry([
+        createItem('menu:a', 'menu:items', { rank: 10, data: 'slow.json' }),
+        createItem('menu:b', 'menu:items', { rank: 20, data: 'fast.json' })
+      ], { settle: 5 });
+      let reg = registry.registerPlugin('menu');
+      return reg.ready.then(() => {
+        expect(log).to.eql(['menu:b 0', 'menu:a 0']);
+        let info = registry.getPointInfo('menu:items');
+        expect(info.extensions).to.eql(['menu:a', 'menu:b']);
+        reg.dispose();
+      });
+    });
+
+    it('should reject an invalid rank', () => {
+      let registry = createRegistry([createItem('menu:a', 'menu:items', { rank: 'first' as any })]);
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('menu').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('`rank`');
+      });
+    });
+
+  });
+
+  describe('extension point cardinality', () => {
+
+    let log: string[] = [];
+
+    function createRegistry(options: IPointOptions, extensions: IExtensionManifest[]): PluginRegistry {
+      let point = createPoint('editor:formatter', options);
+      point.main = 'index.js';
+      point.factory = 'createReceiver';
+      let loader = new MapLoader({
+        'editor/package.json': createManifest('editor', '1.0.0', {
+          extensionPoints: [point],
+          extensions: extensions
+        }),
+        'editor/index.js': {
+          createReceiver: () => createLogReceiver(message => { log.push(message); })
+        }
+      });
+      return new PluginRegistry({ loader });
+    }
+
+    beforeEach(() => {
+      log = [];
+    });
+
+    it('should hold back extensions beyond a single slot', () => {
+      let errors: IPluginError[] = [];
+      let registry = createRegistry({ cardinality: 'single' }, [
+        createItem('editor:a', 'editor:formatter'),
+        createItem('editor:b', 'editor:formatter')
+      ]);
+      registry.setErrorHandler(error => { errors.push(error); });
+      let reg = registry.registerPlugin('editor');
+      return reg.ready.then(() => {
+        expect(log).to.eql(['add editor:a']);
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:a']);
+        expect(info.reserved).to.eql(['editor:b']);
+        expect(info.max).to.be(1);
+        expect(info.conflict).to.be('first');
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.Cardinality);
+        expect(errors[0].extension).to.be('editor:b');
+        reg.dispose();
+      });
+    });
+
+    it('should replace a lower ranked extension with the rank policy', () => {
+      let errors: IPluginError[] = [];
+      let changes: string[] = [];
+      let registry = createRegistry({ cardinality: 'single', conflict: 'rank' }, [
+        createItem('editor:a', 'editor:formatter', { rank: 10 })
+      ]);
+      registry.setErrorHandler(error => { errors.push(error); });
+      let reg = registry.registerPlugin('editor');
+      return reg.ready.then(() => {
+        registry.onChanged(change => {
+          if (change.type === RecordType.Point) changes.push(change.id);
+        });
+        let ext = createExtension();
+        ext.id = 'editor:b';
+        ext.point = 'editor:formatter';
+        ext.rank = 20;
+        return registry.registerExtension(ext).ready;
+      }).then(() => {
+        expect(log).to.eql(['add editor:a', 'remove editor:a', 'add editor:b']);
+        expect(changes).to.eql(['editor:formatter']);
+        expect(errors).to.eql([]);
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:b']);
+        expect(info.reserved).to.eql(['editor:a']);
+        let ext = createExtension();
+        ext.id = 'editor:c';
+        ext.point = 'editor:formatter';
+        ext.rank = 5;
+        return registry.registerExtension(ext).ready;
+      }).then(() => {
+        expect(changes).to.eql(['editor:formatter']);
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.Cardinality);
+        expect(errors[0].extension).to.be('editor:c');
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:b']);
+        expect(info.reserved).to.eql(['editor:a', 'editor:c']);
+        reg.dispose();
+      });
+    });
+
+    it('should refill a freed slot in rank order with the rank policy', () => {
+      let registry = createRegistry({ cardinality: { max: 2 }, conflict: 'rank' }, [
+        createItem('editor:a', 'editor:formatter', { rank: 10 }),
+        createItem('editor:b', 'editor:formatter', { rank: 20 }),
+        createItem('editor:c', 'editor:formatter', { rank: 30 }),
+        createItem('editor:d', 'editor:formatter', { rank: 40 })
+      ]);
+      registry.setErrorHandler(() => { });
+      let ext = createExtension();
+      ext.id = 'editor:x';
+      ext.point = 'editor:formatter';
+      ext.rank = 35;
+      let reg = registry.registerPlugin('editor');
+      let r1: IRegistration;
+      return reg.ready.then(() => {
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:c', 'editor:d']);
+        expect(info.reserved).to.eql(['editor:b', 'editor:a']);
+        r1 = registry.registerExtension(ext);
+        return r1.ready;
+      }).then(() => {
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:x', 'editor:d']);
+        expect(info.reserved).to.eql(['editor:b', 'editor:a', 'editor:c']);
+        log = [];
+        r1.dispose();
+        expect(log).to.eql(['remove editor:x', 'add editor:c']);
+        info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:c', 'editor:d']);
+        expect(info.reserved).to.eql(['editor:b', 'editor:a']);
+        let list = registry.getExtensions('editor:formatter');
+        expect(list.extensions.map(e => e.id)).to.eql(['editor:c', 'editor:d']);
+        reg.dispose();
+      });
+    });
+
+    it('should keep the highest ranks in constraint order with the rank policy', () => {
+      let a = createItem('editor:a', 'editor:formatter', { rank: 30 });
+      a.before = ['editor:b'];
+      let registry = createRegistry({ cardinality: { max: 2 }, conflict: 'rank' }, [
+        a, createItem('editor:b', 'editor:formatter', { rank: 20 })
+      ]);
+      registry.setErrorHandler(() => { });
+      let reg = registry.registerPlugin('editor');
+      return reg.ready.then(() => {
+        let ext = createExtension();
+        ext.id = 'editor:x';
+        ext.point = 'editor:formatter';
+        ext.rank = 10;
+        return registry.registerExtension(ext).ready;
+      }).then(() => {
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:a', 'editor:b']);
+        expect(info.reserved).to.eql(['editor:x']);
+        reg.dispose();
+      });
+    });
+
+    it('should reject a conflicting extension with the error policy', () => {
+      let registry = createRegistry({ cardinality: 'single', conflict: 'error' }, [
+        createItem('editor:a', 'editor:formatter', { rank: 10 }),
+        createItem('editor:b', 'editor:formatter', { rank: 20 })
+      ]);
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('editor').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('editor:b');
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql(['editor:a']);
+        expect(info.reserved).to.eql([]);
+      });
+    });
+
+    it('should deliver a reserved extension when a slot is freed', () => {
+      let registry = createRegistry({ cardinality: 'single' }, []);
+      registry.setErrorHandler(() => { });
+      let first = createExtension();
+      first.point = 'editor:formatter';
+      let second = createExtension();
+      second.point = 'editor:formatter';
+      let reg = registry.registerPlugin('editor');
+      let r1: IRegistration;
+      return reg.ready.then(() => {
+        r1 = registry.registerExtension(first);
+        return r1.ready;
+      }).then(() => {
+        return registry.registerExtension(second).ready;
+      }).then(() => {
+        log = [];
+        r1.dispose();
+        expect(log).to.eql([`remove ${first.id}`, `add ${second.id}`]);
+        let info = registry.getPointInfo('editor:formatter');
+        expect(info.extensions).to.eql([second.id]);
+        expect(info.reserved).to.eql([]);
+        reg.dispose();
+      });
+    });
+
+    it('should enforce the minimum number of extensions', () => {
+      let errors: IPluginError[] = [];
+      let registry = createRegistry({ cardinality: { min: 2 } }, [
+        createItem('editor:a', 'editor:formatter')
+      ]);
+      registry.setErrorHandler(error => { errors.push(error); });
+      let reg = registry.registerPlugin('editor');
+      return reg.ready.then(() => {
+        return registry.requestExtensions('editor:formatter');
+      }).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('at least 2');
+        expect(errors[0].phase).to.be(ErrorPhase.Cardinality);
+        expect(registry.getPointInfo('editor:formatter').min).to.be(2);
+        reg.dispose();
+      });
+    });
+
+    it('should reject an invalid cardinality', () => {
+      let registry = createRegistry({ cardinality: { min: 2, max: 1 } }, []);
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('editor').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('`cardinality`');
+      });
+    });
+
+  });
+
+  describe('load timeouts and cancellation', () => {
+
+    it('should fail a manifest fetch which times out', () => {
+      let errors: IPluginError[] = [];
+      let loader = new MapLoader({ 'slow/package.json': new Promise<any>(() => { }) });
+      let registry = createTestRegistry({ loader, timeouts: { manifest: 10 } }, errors);
+      return registry.registerPlugin('slow').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('Timed out');
+        expect(errors[0].phase).to.be(ErrorPhase.FetchManifest);
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should retry a failed fetch with backoff', () => {
+      let attempts = 0;
+      let loader = new MapLoader({ 'flaky/package.json': createManifest('flaky', '1.0.0', {}) });
+      let loadManifest = loader.loadManifest;
+      loader.loadManifest = (plugin: string) => {
+        if (++attempts < 3) return Promise.reject(createTransientError('network'));
+        return loadManifest.call(loader, plugin);
+      };
+      let registry = new PluginRegistry({ loader, retries: 2, retryDelay: 1 });
+      return registry.registerPlugin('flaky').ready.then(() => {
+        expect(attempts).to.be(3);
+        expect(registry.getPluginInfo('flaky').state).to.be(RecordState.Loaded);
+      });
+    });
+
+    it('should give up after the configured number of retries', () => {
+      let attempts = 0;
+      let loader = new MapLoader();
+      loader.loadManifest = (plugin: string) => {
+        attempts++;
+        return Promise.reject(createTransientError('network'));
+      };
+      let registry = new PluginRegistry({ loader, retries: 1, retryDelay: 1 });
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('flaky').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.be('network');
+        expect(attempts).to.be(2);
+      });
+    });
+
+    it('should not retry a failure which is not transient', () => {
+      let attempts = 0;
+      let loader = new MapLoader();
+      loader.loadManifest = (plugin: string) => {
+        attempts++;
+        return Promise.reject(new Error('not found'));
+      };
+      let registry = new PluginRegistry({ loader, retries: 2, retryDelay: 1 });
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('flaky').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.be('not found');
+        expect(attempts).to.be(1);
+      });
+    });
+
+    it('should retry a timeout only if the option is set', () => {
+      let attempts = 0;
+      let loader = new MapLoader();
+      loader.loadManifest = (plugin: string) => {
+        attempts++;
+        return new Promise<any>(() => { });
+      };
+      let options: IRegistryOptions = { loader, retries: 1, retryDelay: 1, timeouts: { manifest: 5 } };
+      let registry = new PluginRegistry(options);
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('slow').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('Timed out');
+        expect(attempts).to.be(1);
+        attempts = 0;
+        options.retryTimeouts = true;
+        registry = new PluginRegistry(options);
+        registry.setErrorHandler(() => { });
+        return registry.registerPlugin('slow').ready;
+      }).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('Timed out');
+        expect(attempts).to.be(2);
+      });
+    });
+
+    it('should cancel a pending load when the record is disposed', () => {
+      let errors: IPluginError[] = [];
+      let signal: IDisposalToken = null;
+      let loader: IModuleLoader = {
+        loadManifest: (plugin: string, token: IDisposalToken) => {
+          signal = token;
+          return new Promise<any>(() => { });
+        },
+        importModule: (plugin: string, path: string) => Promise.resolve({}),
+        importData: (plugin: string, path: string) => Promise.resolve({})
+      };
+      let registry = createTestRegistry({ loader }, errors);
+      let reg = registry.registerPlugin('hung');
+      return delayed(null, 5).then(() => {
+        expect(signal.isDisposed).to.be(false);
+        reg.dispose();
+        expect(signal.isDisposed).to.be(true);
+        return reg.ready;
+      }).then(() => {
+        expect(errors).to.eql([]);
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should dispose a factory result which arrives after a timeout', () => {
+      let disposed = false;
+      let contrib = { item: 1, isDisposed: false, dispose: () => { disposed = true; } };
+      let loader = new MapLoader({
+        'late/package.json': createManifest('late', '1.0.0', {
+          extensionPoints: [{ id: 'late:point' }],
+          extensions: [{ id: 'late:ext', point: 'late:point', main: 'index.js', factory: 'create' }]
+        }),
+        'late/index.js': { create: () => delayed(contrib, 30) }
+      });
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader, timeouts: { factory: 5 } }, errors);
+      return registry.registerPlugin('late').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('Timed out');
+        expect(errors[0].phase).to.be(ErrorPhase.RunFactory);
+        expect(disposed).to.be(false);
+        return delayed(null, 40);
+      }).then(() => {
+        expect(disposed).to.be(true);
+      });
+    });
+
+  });
+
+  describe('plugin discovery', () => {
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'app-core/package.json': createManifest('app-core', '1.0.0', {}),
+        'app-editor/package.json': createManifest('app-editor', '1.0.0', {}),
+        'app-legacy/package.json': createManifest('app-legacy', '1.0.0', {}),
+        'tools/package.json': createManifest('tools', '1.0.0', {}),
+        'tools/index.js': {},
+        'app-core/plugins.json': { plugins: ['app-core', 'app-editor'] }
+      });
+    }
+
+    it('should register the plugins listed by the loader', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.discoverPlugins();
+      return reg.ready.then(() => {
+        let names = registry.listPlugins().sort();
+        expect(names).to.eql(['app-core', 'app-editor', 'app-legacy', 'tools']);
+        reg.dispose();
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should filter the plugins by pattern and name lists', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.discoverPlugins({
+        pattern: 'app-*',
+        disabled: ['app-legacy']
+      });
+      return reg.ready.then(() => {
+        expect(registry.listPlugins().sort()).to.eql(['app-core', 'app-editor']);
+        reg.dispose();
+      });
+    });
+
+    it('should register the plugins of a catalog', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let catalog = delayed({ plugins: ['tools', 'app-core', 'app-editor'] }, 5);
+      let reg = registry.discoverPlugins({ catalog, enabled: ['tools', 'app-core'] });
+      return reg.ready.then(() => {
+        expect(registry.listPlugins().sort()).to.eql(['app-core', 'tools']);
+        reg.dispose();
+      });
+    });
+
+    it('should load a catalog path with the module loader', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.discoverPlugins({ catalog: 'app-core/plugins.json' });
+      return reg.ready.then(() => {
+        expect(registry.listPlugins().sort()).to.eql(['app-core', 'app-editor']);
+        reg.dispose();
+      });
+    });
+
+    it('should report a catalog path which cannot be loaded', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader(), retries: 1, retryDelay: 1 }, errors);
+      return registry.discoverPlugins({ catalog: 'app-core/missing.json' }).ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.Discovery);
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should skip and keep the plugins which are already registered', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let tools = registry.registerPlugin('tools');
+      let reg = registry.discoverPlugins({ catalog: ['tools', 'app-core'] });
+      return reg.ready.then(() => {
+        reg.dispose();
+        expect(registry.listPlugins()).to.eql(['tools']);
+        tools.dispose();
+      });
+    });
+
+    it('should reject an invalid catalog', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader() }, errors);
+      return registry.discoverPlugins({ catalog: { plugins: [42] } }).ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('catalog');
+        expect(errors[0].phase).to.be(ErrorPhase.Discovery);
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should reject if the loader cannot list plugins', () => {
+      let registry = new PluginRegistry({ loader: new SystemLoader() });
+      registry.setErrorHandler(() => { });
+      return registry.discoverPlugins().ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.contain('cannot list plugins');
+      });
+    });
+
+  });
+
+  describe('enabled state', () => {
+
+    let log: string[] = [];
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'ui/package.json': createManifest('ui', '1.0.0', {
+          extensionPoints: [{ id: 'ui:panels', main: 'index.js', factory: 'createReceiver' }],
+          extensions: [{ id: 'ui:a', point: 'ui:panels' }]
+        }),
+        'extra/package.json': createManifest('extra', '1.0.0', {
+          extensions: [
+            { id: 'extra:b', point: 'ui:panels' },
+            { id: 'extra:c', point: 'ui:panels' }
+          ]
+        }),
+        'ui/index.js': {
+          createReceiver: () => createLogReceiver(message => { log.push(message); })
+        },
+        'tools/package.json': createManifest('tools', '1.0.0', {
+          extensions: [{ id: 'tools:e', point: 'ui:panels', main: 'index.js', factory: 'createContrib' }]
+        }),
+        'tools/index.js': {
+          createContrib: (context: IExtensionContext) => {
+            log.push(`create ${context.id}`);
+            return { item: context.id, dispose: () => { log.push(`dispose ${context.id}`); } };
+          }
+        }
+      });
+    }
+
+    beforeEach(() => {
+      log = [];
+    });
+
+    it('should notify the listeners of a toggle and unload a disabled record', () => {
+      let changes: string[] = [];
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let r1 = registry.registerPlugin('ui');
+      let r2 = registry.registerPlugin('tools');
+      return Promise.all([r1.ready, r2.ready]).then(() => {
+        log = [];
+        registry.onChanged(change => {
+          let type = RecordType[change.type];
+          let state = RecordState[change.state];
+          changes.push(`${type} ${change.id} ${state} ${change.enabled}`);
+        });
+        return registry.setExtensionEnabled('tools:e', false);
+      }).then(() => {
+        expect(log).to.eql(['remove tools:e', 'dispose tools:e']);
+        expect(changes).to.eql([
+          'Extension tools:e Loaded false',
+          'Extension tools:e Unloaded false'
+        ]);
+        let info = registry.getExtensionInfo('tools:e');
+        expect(info.enabled).to.be(false);
+        expect(info.state).to.be(RecordState.Unloaded);
+        changes = [];
+        return registry.setExtensionEnabled('tools:e', true);
+      }).then(() => {
+        expect(log).to.eql(['remove tools:e', 'dispose tools:e', 'create tools:e', 'add tools:e']);
+        expect(changes[0]).to.be('Extension tools:e Unloaded true');
+        expect(registry.getExtensionInfo('tools:e').state).to.be(RecordState.Loaded);
+        changes = [];
+        return registry.setPluginEnabled('tools', false);
+      }).then(() => {
+        expect(changes[0]).to.be('Plugin tools Loaded false');
+        expect(registry.getPluginInfo('tools').enabled).to.be(false);
+        expect(registry.listExtensions()).to.eql(['ui:a']);
+        r1.dispose();
+        r2.dispose();
+      });
+    });
+
+    it('should keep a disabled plugin registered without its contents', () => {
+      let store = new MemoryStore();
+      store.setEnabled(RecordType.Plugin, 'extra', false);
+      let registry = new PluginRegistry({ loader: createLoader(), store });
+      let r1 = registry.registerPlugin('ui');
+      let r2 = registry.registerPlugin('extra');
+      return Promise.all([r1.ready, r2.ready]).then(() => {
+        expect(registry.listPlugins().sort()).to.eql(['extra', 'ui']);
+        expect(registry.getPluginInfo('extra').enabled).to.be(false);
+        expect(registry.listExtensions()).to.eql(['ui:a']);
+        return registry.setPluginEnabled('extra', true);
+      }).then(() => {
+        expect(registry.isPluginEnabled('extra')).to.be(true);
+        expect(log).to.eql(['add ui:a', 'add extra:b', 'add extra:c']);
+        log = [];
+        return registry.setPluginEnabled('extra', false);
+      }).then(() => {
+        expect(log).to.eql(['remove extra:b', 'remove extra:c']);
+        expect(registry.listExtensions()).to.eql(['ui:a']);
+        r1.dispose();
+        r2.dispose();
+      });
+    });
+
+    it('should remove and add an extension which is toggled', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let r1 = registry.registerPlugin('ui');
+      let r2 = registry.registerPlugin('extra');
+      return Promise.all([r1.ready, r2.ready]).then(() => {
+        log = [];
+        return registry.setExtensionEnabled('extra:b', false);
+      }).then(() => {
+        expect(log).to.eql(['remove extra:b']);
+        let info = registry.getExtensionInfo('extra:b');
+        expect(info.enabled).to.be(false);
+        expect(info.connected).to.be(false);
+        expect(registry.isExtensionEnabled('extra:b')).to.be(false);
+        return registry.setExtensionEnabled('extra:b', true);
+      }).then(() => {
+        expect(log).to.eql(['remove extra:b', 'add extra:b']);
+        expect(registry.getPointInfo('ui:panels').extensions).to.eql(['extra:b', 'extra:c', 'ui:a']);
+        r1.dispose();
+        r2.dispose();
+      });
+    });
+
+    it('should persist the choices to local storage', () => {
+      let items: { [key: string]: string } = {};
+      let storage: any = {
+        getItem: (key: string) => key in items ? items[key] : null,
+        setItem: (key: string, value: string) => { items[key] = value; }
+      };
+      let first = new PluginRegistry({ store: new LocalStorageStore('test', storage) });
+      return first.setExtensionEnabled('extra:c', false).then(() => {
+        expect(JSON.parse(items['test'])).to.eql({ 'extension:extra:c': false });
+        let store = new LocalStorageStore('test', storage);
+        let registry = new PluginRegistry({ loader: createLoader(), store });
+        let r1 = registry.registerPlugin('ui');
+        let r2 = registry.registerPlugin('extra');
+        return Promise.all([r1.ready, r2.ready]).then(() => {
+          expect(registry.getPointInfo('ui:panels').extensions).to.eql(['extra:b', 'ui:a']);
+          r1.dispose();
+          r2.dispose();
+        });
+      });
+    });
+
+    it('should ignore invalid saved data', () => {
+      let storage: any = {
+        getItem: (key: string) => '{ invalid',
+        setItem: (key: string, value: string) => { }
+      };
+      let store = new LocalStorageStore('test', storage);
+      expect(store.getEnabled(RecordType.Plugin, 'ui')).to.be(null);
+    });
+
+  });
+
+  describe('extension lists', () => {
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'shell/package.json': createManifest('shell', '1.0.0', {
+          extensionPoints: [{ id: 'shell:commands' }],
+          extensions: [
+            { id: 'shell:open', point: 'shell:commands', data: 'open.json', rank: 2 },
+            { id: 'shell:save', point: 'shell:commands', config: { key: 'Ctrl+S' }, rank: 1 }
+          ]
+        }),
+        'shell/open.json': { label: 'Open' }
+      });
+    }
+
+    it('should collect the extensions of a declarative point', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('shell');
+      return reg.ready.then(() => {
+        let list = registry.getExtensions('shell:commands');
+        expect(list.point).to.be('shell:commands');
+        let exts = list.extensions;
+        expect(exts.map(ext => ext.id)).to.eql(['shell:save', 'shell:open']);
+        expect(exts[0].config).to.eql({ key: 'Ctrl+S' });
+        expect(exts[1].data).to.eql({ label: 'Open' });
+        reg.dispose();
+      });
+    });
+
+    it('should notify the listeners of changes to the list', () => {
+      let changes: string[] = [];
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('shell');
+      let ext = createExtension();
+      ext.point = 'shell:commands';
+      ext.rank = 0;
+      return reg.ready.then(() => {
+        let list = registry.getExtensions('shell:commands');
+        list.onChanged(change => {
+          changes.push(`${change.type} ${change.id} ${change.index}`);
+        });
+        return registry.registerExtension(ext).ready.then(() => {
+          expect(list.extensions.length).to.be(3);
+          reg.dispose();
+          expect(list.extensions).to.eql([]);
+        });
+      }).then(() => {
+        expect(changes[0]).to.be(`add ${ext.id} 0`);
+        expect(changes.slice(1)).to.eql([
+          `remove ${ext.id} 0`, 'remove shell:open 1', 'remove shell:save 0'
+        ]);
+      });
+    });
+
+    it('should stop notifying a removed listener', () => {
+      let count = 0;
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('shell');
+      return reg.ready.then(() => {
+        let list = registry.getExtensions('shell:commands');
+        list.onChanged(() => { count++; }).dispose();
+        reg.dispose();
+        expect(count).to.be(0);
+      });
+    });
+
+    it('should keep a list live across registrations of the point', () => {
+      let changes: string[] = [];
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let list = registry.getExtensions('shell:commands');
+      expect(list.extensions).to.eql([]);
+      list.onChanged(change => { changes.push(`${change.type} ${change.id}`); });
+      let reg = registry.registerPlugin('shell');
+      return reg.ready.then(() => {
+        expect(registry.getExtensions('shell:commands')).to.be(list);
+        reg.dispose();
+        return reg.unloaded;
+      }).then(() => {
+        reg = registry.registerPlugin('shell');
+        return reg.ready;
+      }).then(() => {
+        expect(list.extensions.length).to.be(2);
+        expect(changes).to.eql([
+          'add shell:save', 'add shell:open',
+          'remove shell:open', 'remove shell:save',
+          'add shell:save', 'add shell:open'
+        ]);
+        reg.dispose();
+      });
+    });
+
+  });
+
+  describe('point tokens', () => {
+
+    interface ICommand {
+      execute(): string;
+    }
+
+    interface ICommandConfig {
+      label: string;
+    }
+
+    type CommandExtension = ITypedExtension<ICommand, void, ICommandConfig>;
+
+    type CommandPoint = ITypedExtensionPoint<ICommand, void, ICommandConfig>;
+
+    let COMMANDS = new PointToken<ICommand, void, ICommandConfig>('app:commands');
+
+    function createPoint(added: CommandExtension[]): CommandPoint {
+      return {
+        id: 'app:commands',
+        isDisposed: false,
+        dispose: () => { },
+        add: extension => { added.push(extension); },
+        remove: id => { }
+      };
+    }
+
+    function createCommand(id: string, point = 'app:commands'): CommandExtension {
+      return {
+        id: id,
+        point: point,
+        item: { execute: () => `ran ${id}` },
+        data: null,
+        config: { label: id },
+        isDisposed: false,
+        dispose: () => { }
+      };
+    }
+
+    it('should register a typed point and extension with a token', () => {
+      let added: CommandExtension[] = [];
+      let registry = new PluginRegistry();
+      let r1 = registry.registerExtensionPoint(COMMANDS, createPoint(added));
+      let r2 = registry.registerExtension(COMMANDS, createCommand('app:copy'));
+      return Promise.all([r1.ready, r2.ready]).then(() => {
+        expect(added.length).to.be(1);
+        expect(added[0].item.execute()).to.be('ran app:copy');
+        expect(added[0].config.label).to.be('app:copy');
+        r2.dispose();
+        r1.dispose();
+      });
+    });
+
+    it('should throw if an extension does not target the token point', () => {
+      let registry = new PluginRegistry();
+      expect(() => {
+        registry.registerExtension(COMMANDS, createCommand('app:copy', 'app:other'));
+      }).to.throwError(/does not match/);
+      expect(registry.listExtensions()).to.eql([]);
+    });
+
+    it('should throw if a point does not match the token', () => {
+      let registry = new PluginRegistry();
+      let token = new PointToken<ICommand, void, ICommandConfig>('app:other');
+      expect(() => {
+        registry.registerExtensionPoint(token, createPoint([]));
+      }).to.throwError(/does not match/);
+      expect(registry.listExtensionPoints()).to.eql([]);
+    });
+
+  });
+
+  describe('receiver isolation', () => {
+
+    let calls: string[] = [];
+
+    function createLoader(failAdd: string[], failRemove: boolean): MapLoader {
+      return new MapLoader({
+        'host/package.json': createManifest('host', '1.0.0', {
+          extensionPoints: [{ id: 'host:widgets', main: 'index.js', factory: 'createReceiver' }],
+          extensions: [
+            { id: 'host:a', point: 'host:widgets', main: 'index.js', factory: 'createWidget' },
+            { id: 'host:b', point: 'host:widgets', main: 'index.js', factory: 'createWidget' },
+            { id: 'host:c', point: 'host:widgets', main: 'index.js', factory: 'createWidget' }
+          ]
+        }),
+        'host/index.js': {
+          createReceiver: () => ({
+            add: (extension: IExtension) => {
+              calls.push(`add ${extension.id}`);
+              if (failAdd.indexOf(extension.id) !== -1) throw new Error('add failed');
+            },
+            remove: (id: string) => {
+              calls.push(`remove ${id}`);
+              if (failRemove) throw new Error('remove failed');
+            }
+          }),
+          createWidget: (context: IExtensionContext) => ({
+            item: context.id,
+            dispose: () => { calls.push(`dispose ${context.id}`); }
+          })
+        }
+      });
+    }
+
+    beforeEach(() => {
+      calls = [];
+    });
+
+    it('should isolate an extension which fails to be added', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader(['host:b'], false) }, errors);
+      let reg = registry.registerPlugin('host');
+      return reg.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.be('add failed');
+        expect(registry.getPointInfo('host:widgets').extensions).to.eql(['host:a', 'host:c']);
+        expect(errors[0].phase).to.be(ErrorPhase.ReceiverAdd);
+        expect(errors[0].extension).to.be('host:b');
+        reg.dispose();
+      });
+    });
+
+    it('should complete a disposal when the receiver fails to remove', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader([], true) }, errors);
+      let reg = registry.registerPlugin('host');
+      return reg.ready.then(() => {
+        calls = [];
+        reg.dispose();
+        expect(calls).to.eql([
+          'remove host:c', 'remove host:b', 'remove host:a',
+          'dispose host:a', 'dispose host:b', 'dispose host:c'
+        ]);
+        expect(registry.listExtensions()).to.eql([]);
+        expect(registry.listExtensionPoints()).to.eql([]);
+        expect(errors.length).to.be(3);
+        expect(errors[0].phase).to.be(ErrorPhase.ReceiverRemove);
+        expect(errors[0].point).to.be('host:widgets');
+        expect(errors[0].extension).to.be('host:c');
+      });
+    });
+
+    it('should quarantine a point after repeated failures', () => {
+      let errors: IPluginError[] = [];
+      let loader = createLoader(['host:a', 'host:b', 'host:c'], true);
+      let registry = createTestRegistry({ loader, quarantine: 2 }, errors);
+      let reg = registry.registerPlugin('host');
+      return reg.ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(calls).to.eql(['add host:a', 'add host:b']);
+        let info = registry.getPointInfo('host:widgets');
+        expect(info.quarantined).to.be(true);
+        expect(info.failures).to.be(2);
+        expect(errors[2].message).to.contain('quarantined');
+        reg.dispose();
+      });
+    });
+
+  });
+
+  describe('namespacing', () => {
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'editor/package.json': createManifest('editor', '1.0.0', {
+          extensionPoints: [{ id: 'menus' }],
+          extensions: [
+            { id: 'open', point: 'menus', after: ['save'] },
+            { id: 'save', point: 'menus' }
+          ]
+        }),
+        'squatter/package.json': createManifest('squatter', '1.0.0', {
+          extensionPoints: [{ id: 'editor:menus' }]
+        }),
+        'aliased/package.json': createManifest('aliased', '1.0.0', {
+          namespace: 'editor',
+          extensions: [{ id: 'editor:close', point: 'editor:menus' }]
+        }),
+        'core/package.json': createManifest('core', '1.0.0', {
+          extensions: [{ id: 'core:ext', point: 'editor:menus' }]
+        }),
+        'audit/package.json': createManifest('audit', '1.0.0', {
+          extensions: [{ id: 'all', point: '*', after: ['editor:open'] }]
+        })
+      });
+    }
+
+    it('should not check the ids by default', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('squatter');
+      return reg.ready.then(() => {
+        expect(registry.listExtensionPoints()).to.eql(['editor:menus']);
+        expect(registry.getPluginInfo('squatter').namespace).to.be('squatter');
+        reg.dispose();
+      });
+    });
+
+    it('should reject an id which the plugin does not own', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader(), namespacing: 'validate' }, errors);
+      return registry.registerPlugin('squatter').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.be("Plugin 'squatter' does not own the id 'editor:menus'.");
+        expect(errors[0].phase).to.be(ErrorPhase.ValidateSpec);
+        expect(registry.listExtensionPoints()).to.eql([]);
+      });
+    });
+
+    it('should prefix the unprefixed ids and references', () => {
+      let registry = new PluginRegistry({ loader: createLoader(), namespacing: 'prefix' });
+      let reg = registry.registerPlugin('editor');
+      return reg.ready.then(() => {
+        let info = registry.getPointInfo('editor:menus');
+        expect(info.extensions).to.eql(['editor:save', 'editor:open']);
+        expect(registry.getExtensionInfo('editor:open').after).to.eql(['editor:save']);
+        reg.dispose();
+      });
+    });
+
+    it('should not prefix the wildcard references', () => {
+      let registry = new PluginRegistry({ loader: createLoader(), namespacing: 'prefix' });
+      let reg = registry.registerPlugin('editor');
+      return reg.ready.then(() => {
+        return registry.registerPlugin('audit').ready;
+      }).then(() => {
+        let info = registry.getExtensionInfo('audit:all');
+        expect(info.targets).to.eql(['*']);
+        expect(info.after).to.eql(['editor:open']);
+        expect(info.points).to.eql(['editor:menus']);
+        let ids = registry.getPointInfo('editor:menus').extensions;
+        expect(ids).to.eql(['editor:save', 'editor:open', 'audit:all']);
+        reg.dispose();
+      });
+    });
+
+    it('should reject a namespace which is owned by another plugin', () => {
+      let registry = new PluginRegistry({ loader: createLoader(), namespacing: 'prefix' });
+      registry.setErrorHandler(() => { });
+      let reg = registry.registerPlugin('editor');
+      return reg.ready.then(() => {
+        return registry.registerPlugin('aliased').ready;
+      }).then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.be("Namespace 'editor' is owned by plugin 'editor'.");
+        reg.dispose();
+        return registry.registerPlugin('aliased').ready;
+      }).then(() => {
+        expect(registry.getPluginInfo('aliased').namespace).to.be('editor');
+        expect(registry.listExtensions()).to.eql(['editor:close']);
+      });
+    });
+
+    it('should reject a reserved namespace', () => {
+      let registry = new PluginRegistry({
+        loader: createLoader(),
+        namespacing: 'validate',
+        reservedNamespaces: ['core']
+      });
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('core').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.be("Namespace 'core' is reserved.");
+      });
+    });
+
+    it('should throw for an invalid namespacing rule', () => {
+      expect(() => {
+        new PluginRegistry({ namespacing: 'strict' });
+      }).to.throwError(/not valid/);
+    });
+
+  });
+
+  describe('multi-point targeting', () => {
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'shell/package.json': createManifest('shell', '1.0.0', {
+          extensionPoints: [{ id: 'shell:menus' }, { id: 'shell:toolbar' }],
+          extensions: [
+            { id: 'shell:save', point: ['shell:menus', 'shell:toolbar'], config: { key: 'S' } }
+          ]
+        }),
+        'theme/package.json': createManifest('theme', '1.0.0', {
+          extensions: [{ id: 'theme:dark', point: 'panels:*' }]
+        }),
+        'panels/package.json': createManifest('panels', '1.0.0', {
+          extensionPoints: [{ id: 'panels:left' }, { id: 'panels:right' }]
+        }),
+        'empty/package.json': createManifest('empty', '1.0.0', {
+          extensions: [{ id: 'empty:ext', point: [] }]
+        })
+      });
+    }
+
+    it('should deliver an extension to each of its points', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('shell');
+      return reg.ready.then(() => {
+        let menus = registry.getExtensions('shell:menus').extensions;
+        let tools = registry.getExtensions('shell:toolbar').extensions;
+        expect(menus.length).to.be(1);
+        expect(tools.length).to.be(1);
+        expect(menus[0]).to.not.be(tools[0]);
+        expect(menus[0].point).to.be('shell:menus');
+        expect(tools[0].point).to.be('shell:toolbar');
+        expect(tools[0].config).to.eql({ key: 'S' });
+        let info = registry.getExtensionInfo('shell:save');
+        expect(info.point).to.be('shell:menus');
+        expect(info.targets).to.eql(['shell:menus', 'shell:toolbar']);
+        expect(info.points).to.eql(['shell:menus', 'shell:toolbar']);
+        reg.dispose();
+        expect(menus[0].isDisposed).to.be(true);
+        expect(tools[0].isDisposed).to.be(true);
+      });
+    });
+
+    it('should pair a pattern with the points registered later', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      return registry.registerPlugin('theme').ready.then(() => {
+        expect(registry.getExtensionInfo('theme:dark').connected).to.be(false);
+        return registry.registerPlugin('panels').ready;
+      }).then(() => {
+        let info = registry.getExtensionInfo('theme:dark');
+        expect(info.points).to.eql(['panels:left', 'panels:right']);
+        let exts = registry.getExtensions('panels:right').extensions;
+        expect(exts.map(ext => ext.point)).to.eql(['panels:right']);
+        registry.setExtensionEnabled('theme:dark', false);
+        expect(registry.getPointInfo('panels:left').extensions).to.eql([]);
+        expect(registry.getPointInfo('panels:right').extensions).to.eql([]);
+      });
+    });
+
+    it('should reject an empty array of points', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      registry.setErrorHandler(() => { });
+      return registry.registerPlugin('empty').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.match(/must not be empty/);
+      });
+    });
+
+  });
+
+  describe('plugin lifecycle', () => {
+
+    let events: string[] = [];
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'app/package.json': createManifest('app', '1.0.0', {
+          main: 'index.js',
+          extensionPoints: [{ id: 'app:point' }],
+          extensions: [{ id: 'app:ext', point: 'app:point' }]
+        }),
+        'app/index.js': {
+          activate: (context: IPluginContext) => {
+            let count = context.registry.listExtensions().length;
+            events.push(`activate ${context.id} ${context.version} ${count}`);
+            return delayed(null, 5);
+          },
+          deactivate: (context: IPluginContext) => {
+            let count = context.registry.listExtensions().length;
+            events.push(`deactivate ${context.id} ${count}`);
+          }
+        },
+        'veto/package.json': createManifest('veto', '1.0.0', {
+          main: 'index.js',
+          extensions: [{ id: 'veto:ext', point: 'app:point' }]
+        }),
+        'veto/index.js': {
+          activate: () => delayed(false, 5),
+          deactivate: () => { events.push('deactivate veto'); }
+        },
+        'broken/package.json': createManifest('broken', '1.0.0', {
+          main: 'index.js'
+        }),
+        'broken/index.js': {
+          deactivate: () => { throw new Error('deactivate failed'); }
+        },
+        'ordered/package.json': createManifest('ordered', '1.0.0', {
+          main: 'index.js',
+          extensionPoints: [{ id: 'ordered:point' }],
+          extensions: [{
+            id: 'ordered:ext', point: 'ordered:point', main: 'index.js', factory: 'createContrib'
+          }],
+          provides: [{ id: 'ordered:service', main: 'index.js', factory: 'createService' }]
+        }),
+        'ordered/index.js': {
+          deactivate: () => { events.push('deactivate'); },
+          createContrib: () => ({
+            item: 'ordered',
+            dispose: () => delayed(null, 5).then(() => { events.push('dispose contrib'); })
+          }),
+          createService: () => ({
+            dispose: () => { events.push('dispose service'); }
+          })
+        }
+      });
+    }
+
+    beforeEach(() => {
+      events = [];
+    });
+
+    it('should activate a plugin before its contents are registered', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('app');
+      return reg.ready.then(() => {
+        expect(events).to.eql(['activate app 1.0.0 0']);
+        expect(registry.listExtensions()).to.eql(['app:ext']);
+        let info = registry.getPluginInfo('app');
+        expect(info.main).to.be('index.js');
+        expect(info.activated).to.be(true);
+        reg.dispose();
+        return reg.unloaded;
+      }).then(() => {
+        expect(events).to.eql(['activate app 1.0.0 0', 'deactivate app 0']);
+      });
+    });
+
+    it('should deactivate a plugin between its contents and services', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('ordered');
+      return reg.ready.then(() => {
+        return registry.resolveService('ordered:service');
+      }).then(() => {
+        reg.dispose();
+        expect(events).to.eql([]);
+        return reg.unloaded;
+      }).then(() => {
+        expect(events).to.eql(['dispose contrib', 'deactivate', 'dispose service']);
+      });
+    });
+
+    it('should fail to load a plugin which vetoes its activation', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader() }, errors);
+      return registry.registerPlugin('veto').ready.then(() => {
+        throw new Error('should not resolve');
+      }, err => {
+        expect(err.message).to.be("Plugin 'veto' vetoed its activation.");
+        expect(errors[0].phase).to.be(ErrorPhase.ActivatePlugin);
+        expect(registry.listPlugins()).to.eql([]);
+        expect(registry.listExtensions()).to.eql([]);
+        expect(events).to.eql([]);
+      });
+    });
+
+    it('should deactivate a plugin which was disposed while activating', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let reg = registry.registerPlugin('app');
+      return delayed(null, 1).then(() => {
+        reg.dispose();
+        return delayed(null, 10);
+      }).then(() => {
+        expect(events).to.eql(['activate app 1.0.0 0', 'deactivate app 0']);
+        expect(registry.listExtensions()).to.eql([]);
+      });
+    });
+
+    it('should report an error thrown by the deactivation', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader() }, errors);
+      let reg = registry.registerPlugin('broken');
+      return reg.ready.then(() => {
+        reg.dispose();
+        return delayed(null, 0);
+      }).then(() => {
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.Dispose);
+        expect(errors[0].cause.message).to.be('deactivate failed');
+      });
+    });
+
+  });
+
+  describe('plugin teardown', () => {
+
+    let calls: string[] = [];
+
+    function createReceiver(context: IPointContext): IReceiver {
+      return {
+        add: () => { },
+        remove: (id: string) => { calls.push(`${context.id} remove ${id}`); },
+        dispose: () => { calls.push(`dispose ${context.id}`); }
+      };
+    }
+
+    function createLoader(): MapLoader {
+      return new MapLoader({
+        'host/package.json': createManifest('host', '1.0.0', {
+          extensionPoints: [{ id: 'host:menu', main: 'index.js', factory: 'createReceiver' }],
+          extensions: [
+            { id: 'host:own', point: 'host:menu' },
+            { id: 'host:ext', point: 'guest:bar', main: 'index.js', factory: 'createContrib' }
+          ]
+        }),
+        'host/index.js': {
+          createReceiver: createReceiver,
+          createContrib: (context: IExtensionContext) => ({
+            item: context.id,
+            dispose: () => {
+              calls.push(`dispose ${context.id}`);
+              return delayed(null, 5).then(() => { calls.push('disposed'); });
+            }
+          })
+        },
+        'guest/package.json': createManifest('guest', '1.0.0', {
+          extensionPoints: [{ id: 'guest:bar', main: 'index.js', factory: 'createReceiver' }],
+          extensions: [{ id: 'guest:item', point: 'host:menu' }]
+        }),
+        'guest/index.js': {
+          createReceiver: createReceiver
+        },
+        'failing/package.json': createManifest('failing', '1.0.0', {
+          extensionPoints: [{ id: 'failing:point' }],
+          extensions: [{ id: 'failing:ext', point: 'failing:point', main: 'index.js', factory: 'createContrib' }]
+        }),
+        'failing/index.js': {
+          createContrib: () => ({
+            item: 'failing',
+            dispose: () => Promise.reject(new Error('dispose failed'))
+          })
+        }
+      });
+    }
+
+    beforeEach(() => {
+      calls = [];
+    });
+
+    it('should tear down a plugin in dependency order', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let guest = registry.registerPlugin('guest');
+      let host = registry.registerPlugin('host');
+      return Promise.all([guest.ready, host.ready]).then(() => {
+        host.dispose();
+        expect(calls).to.eql([
+          'guest:bar remove host:ext',
+          'host:menu remove guest:item',
+          'host:menu remove host:own',
+          'dispose host:menu',
+          'dispose host:ext'
+        ]);
+        expect(registry.getExtensionInfo('guest:item').connected).to.be(false);
+        guest.dispose();
+      });
+    });
+
+    it('should resolve once the asynchronous disposal is done', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let guest = registry.registerPlugin('guest');
+      let host = registry.registerPlugin('host');
+      return Promise.all([guest.ready, host.ready]).then(() => {
+        host.dispose();
+        expect(calls.indexOf('disposed')).to.be(-1);
+        return host.unloaded;
+      }).then(() => {
+        expect(calls[calls.length - 1]).to.be('disposed');
+        guest.dispose();
+        return guest.unloaded;
+      });
+    });
+
+    it('should resolve once a plugin disposed while loading has settled', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      let host = registry.registerPlugin('host');
+      host.dispose();
+      return host.unloaded.then(() => {
+        expect(registry.listPlugins()).to.eql([]);
+        expect(registry.listExtensionPoints()).to.eql([]);
+        return host.ready;
+      });
+    });
+
+    it('should resolve for a disposed plugin which fails to load', () => {
+      let registry = new PluginRegistry({ loader: createLoader() });
+      registry.setErrorHandler(() => { });
+      let reg = registry.registerPlugin('missing');
+      reg.dispose();
+      return reg.unloaded.then(() => {
+        expect(registry.listPlugins()).to.eql([]);
+      });
+    });
+
+    it('should report an asynchronous disposal error', () => {
+      let errors: IPluginError[] = [];
+      let registry = createTestRegistry({ loader: createLoader() }, errors);
+      let reg = registry.registerPlugin('failing');
+      return reg.ready.then(() => {
+        reg.dispose();
+        return reg.unloaded;
+      }).then(() => {
+        expect(errors.length).to.be(1);
+        expect(errors[0].phase).to.be(ErrorPhase.Dispose);
+        expect(errors[0].extension).to.be('failing:ext');
+        expect(errors[0].cause.message).to.be('dispose failed');
+      });
+    });
+
+  });
+
+});